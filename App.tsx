@@ -1,164 +1,558 @@
-import React, { useState, useEffect, Suspense, useRef } from 'react';
-import { Canvas } from '@react-three/fiber';
+import React, { useState, useEffect, Suspense, useRef, useCallback, useMemo } from 'react';
+import { Canvas, RootState } from '@react-three/fiber';
 import { OrbitControls, Stars } from '@react-three/drei';
-import { Painting, ParticleConfig, AIResponse, AudioData } from './types';
-import { analyzePainting, hasGeminiApiKey } from './services/geminiService';
+import { Painting, PaintingCollection, ParticleConfig, AIResponse, AudioData, GeometryCacheStats, CameraApi, CameraState, AudioPlayerApi, HighlightRegion, ChatMessage, ExhibitionSettings, Tour, TourKeyframe, BrushSettings } from './types';
+import { analyzePainting, getInsightProvider, setInsightProvider } from './services/insightService';
+import { InsightProviderId } from './services/insightProvider';
+import { Locale, translate } from './services/i18n';
+import { useI18n } from './components/I18nProvider';
+import { clearGeometryCache, subscribeGeometryCacheStats } from './services/geometryCache';
+import { addUploads, deleteUpload, isUserUpload, loadUploads, updateUpload, UploadFields, UploadNotice, UploadResult } from './services/uploadLibrary';
+import { getInitialConfig, getPaintingPreset, setActivePresetId } from './services/presets';
+import { BUILT_IN_COLLECTIONS, catalogPaintings, loadExtraCollections, mergeCollections, registerLocalImages } from './services/catalog';
+import { decodeViewLink, encodeViewLink, ViewLink } from './services/deepLink';
+import { exhibitionPaintings, layoutExhibition, loadExhibition, saveExhibition, viewpointFor } from './services/exhibition';
+import { DEFAULT_BRUSH } from './services/brush';
+import { loadTour, saveTour, TourSample } from './services/tour';
 import ParticleSystem from './components/ParticleSystem';
+import Exhibition from './components/Exhibition';
+import ExhibitionPanel from './components/ExhibitionPanel';
+import BrushPanel from './components/BrushPanel';
+import TourPlayer from './components/TourPlayer';
+import TourPanel from './components/TourPanel';
 import Controls from './components/Controls';
 import AudioPlayer from './components/AudioPlayer';
+import CameraBridge from './components/CameraBridge';
+import ExportPanel from './components/ExportPanel';
+import { BACKDROP_NAME } from './services/imageExport';
+import { SILENT_AUDIO } from './services/audioAnalysis';
+import { isAbortError } from './services/particleLoader';
+import { Frameloop } from './services/videoRecorder';
 
-// Pre-defined list of masterpieces (using Wikimedia Commons for CORS friendliness)
-const DEFAULT_PAINTINGS: Painting[] = [
-  {
-    id: 'starry-night',
-    title: 'The Starry Night',
-    artist: 'Vincent van Gogh',
-    year: '1889',
-    url: 'https://upload.wikimedia.org/wikipedia/commons/thumb/e/ea/Van_Gogh_-_Starry_Night_-_Google_Art_Project.jpg/1024px-Van_Gogh_-_Starry_Night_-_Google_Art_Project.jpg'
-  },
-  {
-    id: 'mona-lisa',
-    title: 'Mona Lisa',
-    artist: 'Leonardo da Vinci',
-    year: '1503',
-    url: 'https://upload.wikimedia.org/wikipedia/commons/thumb/e/ec/Mona_Lisa%2C_by_Leonardo_da_Vinci%2C_from_C2RMF_retouched.jpg/800px-Mona_Lisa%2C_by_Leonardo_da_Vinci%2C_from_C2RMF_retouched.jpg'
-  },
-  {
-    id: 'wave',
-    title: 'Great Wave off Kanagawa',
-    artist: 'Hokusai',
-    year: '1831',
-    url: 'https://upload.wikimedia.org/wikipedia/commons/thumb/0/0d/Great_Wave_off_Kanagawa2.jpg/1024px-Great_Wave_off_Kanagawa2.jpg'
-  },
-  {
-    id: 'venus-de-milo',
-    title: 'Venus de Milo',
-    artist: 'Alexandros of Antioch',
-    year: 'c. 101 BC',
-    url: 'https://d1inegp6v2yuxm.cloudfront.net/royal-academy/image/upload/c_limit,cs_tinysrgb,dn_72,f_auto,fl_progressive.keep_iptc,w_1200/yq3ruckksdsdq0njjoqn.jpeg'
+const DEFAULT_PAINTINGS = catalogPaintings(BUILT_IN_COLLECTIONS);
+
+const HASH_UPDATE_DELAY_MS = 400;
+
+const isCatalogPainting = (painting: Painting) => Boolean(painting.collection);
+// Uploads are linked by id too: their blob: URLs only live for one session
+const isLinkablePainting = (painting: Painting) => isCatalogPainting(painting) || isUserUpload(painting);
+const UPLOAD_NOTICE_MS = 6000;
+// Default camera, also where leaving the exhibition flies back to
+const HOME_VIEW: CameraState = { position: [0, 0, 180], target: [0, 0, 0] };
+// An autoplaying (kiosk) tour resumes after this long without camera input
+const KIOSK_RESUME_MS = 30000;
+
+// Find the painting a shared link points to, or create an entry for a remote image
+const resolveLinkedPainting = (link: ViewLink, paintings: Painting[], locale: Locale): Painting | undefined => {
+  if (link.paintingId) {
+    const match = paintings.find(p => p.id === link.paintingId);
+    if (!match) console.warn(`Ignoring deep link to unknown painting "${link.paintingId}"`);
+    return match;
   }
-];
+  if (link.paintingUrl) {
+    return paintings.find(p => p.url === link.paintingUrl) ?? {
+      id: `remote-${Date.now()}`,
+      title: decodeURIComponent(link.paintingUrl.split('/').pop()?.split(/[?#.]/)[0] || translate(locale, 'app.sharedImage')),
+      artist: translate(locale, 'app.unknownArtist'),
+      year: '',
+      url: link.paintingUrl
+    };
+  }
+  return undefined;
+};
 
 const App: React.FC = () => {
-  const [paintings, setPaintings] = useState<Painting[]>(DEFAULT_PAINTINGS);
-  const [selectedPainting, setSelectedPainting] = useState<Painting>(DEFAULT_PAINTINGS[0]);
+  const { locale, t } = useI18n();
+
+  // Restore the view from a shared deep link (#painting=...&depth=...&cam=...)
+  const [initialView] = useState(() => {
+    const link = decodeViewLink(window.location.hash);
+    return { link, painting: link ? resolveLinkedPainting(link, DEFAULT_PAINTINGS, locale) : undefined };
+  });
+
+  const [paintings, setPaintings] = useState<Painting[]>(() =>
+    initialView.painting && !isCatalogPainting(initialView.painting)
+      ? [...DEFAULT_PAINTINGS, initialView.painting]
+      : DEFAULT_PAINTINGS
+  );
+  const [selectedPainting, setSelectedPainting] = useState<Painting>(initialView.painting ?? DEFAULT_PAINTINGS[0]);
+  const [collections, setCollections] = useState<PaintingCollection[]>(BUILT_IN_COLLECTIONS);
   const [aiData, setAiData] = useState<AIResponse | null>(null);
+  const [highlights, setHighlights] = useState<HighlightRegion[]>([]);
+  // Insight chat conversations by painting id, kept for the session
+  const [chatHistories, setChatHistories] = useState<Record<string, ChatMessage[]>>({});
   const [isLoadingAI, setIsLoadingAI] = useState(false);
-  const [geminiConfigured] = useState<boolean>(hasGeminiApiKey());
+  const [insightProviderId, setInsightProviderId] = useState<InsightProviderId>(() => getInsightProvider().id);
+  const [cacheStats, setCacheStats] = useState<GeometryCacheStats | null>(null);
+  const [uploadNotices, setUploadNotices] = useState<UploadNotice[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [exhibition, setExhibition] = useState<ExhibitionSettings>(loadExhibition);
+  const [brush, setBrush] = useState<BrushSettings>(DEFAULT_BRUSH);
+  const [tour, setTour] = useState<Tour>(loadTour);
+  const [isTourPlaying, setIsTourPlaying] = useState(() => tour.autoplay && tour.keyframes.length > 1);
   
   // Ref for shared audio analysis data (avoids re-renders)
-  const audioDataRef = useRef<AudioData>({ low: 0, mid: 0, high: 0 });
-
-  const [config, setConfig] = useState<ParticleConfig>({
-    size: 0.8,
-    depth: 15, // How much "3D" pop it has based on brightness
-    density: 1.5, // Set to 1.5 to enhance the 3D point-cloud aesthetic
-    dispersion: 0,
-    brightness: 1.2 // Default slight boost
-  });
+  const audioDataRef = useRef<AudioData>({ ...SILENT_AUDIO });
 
-  // Handle Image Upload
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const url = URL.createObjectURL(file);
-    const newPainting: Painting = {
-      id: `custom-${Date.now()}`,
-      title: file.name.split('.')[0] || 'Custom Upload',
-      artist: 'User Upload',
-      year: new Date().getFullYear().toString(),
-      url: url
-    };
+  // Start from the linked config, then the painting's / last active preset (or the defaults)
+  const [config, setConfig] = useState<ParticleConfig>(() => ({
+    ...getInitialConfig(initialView.painting?.id ?? DEFAULT_PAINTINGS[0].id),
+    ...initialView.link?.config
+  }));
 
-    setPaintings(prev => [...prev, newPainting]);
-    setSelectedPainting(newPainting);
-  };
+  // Imperative camera access (see CameraBridge)
+  const cameraApiRef = useRef<CameraApi | null>(null);
+  const audioPlayerApiRef = useRef<AudioPlayerApi | null>(null);
+  // Renderer, scene and camera for offscreen exports
+  const sceneStateRef = useRef<RootState | null>(null);
+  // Offline video recording pauses the render loop and steps frames itself
+  const [frameloop, setFrameloop] = useState<Frameloop>('always');
+  // AudioPlayer output, captured by the video recorder
+  const audioStreamRef = useRef<MediaStream | null>(null);
+
+  // Keep the URL hash in sync with the view (debounced, without adding history entries)
+  const viewRef = useRef({ painting: selectedPainting, config });
+  viewRef.current = { painting: selectedPainting, config };
+  const hashTimerRef = useRef<number>(0);
 
-  // Fetch AI Analysis when painting changes
+  const scheduleHashUpdate = useCallback(() => {
+    window.clearTimeout(hashTimerRef.current);
+    hashTimerRef.current = window.setTimeout(() => {
+      const { painting, config } = viewRef.current;
+      const hash = encodeViewLink({
+        paintingId: isLinkablePainting(painting) ? painting.id : undefined,
+        paintingUrl: isLinkablePainting(painting) ? undefined : painting.url,
+        config,
+        camera: cameraApiRef.current?.getState()
+      });
+      window.history.replaceState(null, '', `#${hash}`);
+    }, HASH_UPDATE_DELAY_MS);
+  }, []);
+
+  useEffect(scheduleHashUpdate, [selectedPainting, config, scheduleHashUpdate]);
+
+  // Apply links pasted into the address bar of an open tab
   useEffect(() => {
-    const fetchAI = async () => {
-      // Handle Custom Images - Skip API call
-      if (selectedPainting.id.startsWith('custom-')) {
-        setAiData({
-          analysis: "This is a custom image uploaded by you. Explore its 3D structure by rotating the view and adjusting the Depth slider!",
-          mood: "Personal, Unique, Creative"
-        });
-        setIsLoadingAI(false);
-        return;
+    const handleHashChange = () => {
+      const link = decodeViewLink(window.location.hash);
+      if (!link) return;
+
+      const painting = resolveLinkedPainting(link, paintings, locale);
+      if (painting) {
+        setPaintings(prev => prev.some(p => p.id === painting.id) ? prev : [...prev, painting]);
+        setSelectedPainting(painting);
       }
+      setConfig(prev => ({ ...prev, ...link.config }));
+      if (link.camera) cameraApiRef.current?.setState(link.camera);
+    };
+
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [paintings, locale]);
+
+  // A deep link to a painting that only arrives after startup (extra collections,
+  // saved uploads) could not be resolved initially, so it is applied once it loads
+  const selectLateLinkedPainting = useCallback((added: Painting[]) => {
+    const linkedId = initialView.link?.paintingId;
+    const linked = linkedId && !initialView.painting ? added.find(p => p.id === linkedId) : undefined;
+    if (linked) setSelectedPainting(linked);
+  }, [initialView]);
+
+  // Add the collections listed in CATALOG_URLS
+  useEffect(() => {
+    const controller = new AbortController();
+    loadExtraCollections(controller.signal).then((extra) => {
+      if (controller.signal.aborted || extra.length === 0) return;
+
+      const merged = mergeCollections(BUILT_IN_COLLECTIONS, extra);
+      const added = catalogPaintings(merged.slice(BUILT_IN_COLLECTIONS.length));
+      registerLocalImages(added);
+      setCollections(merged);
+      setPaintings(prev => [...prev, ...added.filter(p => !prev.some(existing => existing.id === p.id))]);
+
+      selectLateLinkedPainting(added);
+    });
+    return () => controller.abort();
+  }, [selectLateLinkedPainting]);
 
-      if (!geminiConfigured) {
-        setAiData({
-          analysis: "Gemini API key is not configured. Set GEMINI_API_KEY to enable live insights.",
-          mood: "未配置 API Key"
-        });
-        setIsLoadingAI(false);
+  // Restore uploads saved in earlier sessions
+  useEffect(() => {
+    let cancelled = false;
+    loadUploads().then((uploads) => {
+      if (cancelled) {
+        uploads.forEach(upload => URL.revokeObjectURL(upload.url));
         return;
       }
+      setPaintings(prev => [...prev, ...uploads]);
+      selectLateLinkedPainting(uploads);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectLateLinkedPainting]);
 
-      setIsLoadingAI(true);
-      setAiData(null);
-      try {
-        const result = await analyzePainting(selectedPainting);
-        setAiData(result);
-      } catch (e) {
-        console.error(e);
-        setAiData({ analysis: "Gemini is taking a nap. Try again later!", mood: "Sleepy" });
-      } finally {
-        setIsLoadingAI(false);
-      }
+  // Store images from the file picker, drag and drop or the clipboard, and show the first one
+  const importImages = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    let result: UploadResult;
+    try {
+      result = await addUploads(files, translate(locale, 'app.customUpload'));
+    } catch (err) {
+      console.error("Image import failed", err);
+      const message = err instanceof Error ? err.message : String(err);
+      setUploadNotices([{ key: 'upload.failed', params: { message }, error: true }]);
+      return;
+    }
+
+    const { paintings: added, notices } = result;
+    setUploadNotices(notices);
+    if (added.length === 0) return;
+    setPaintings(prev => [...prev, ...added]);
+    setSelectedPainting(added[0]);
+  }, [locale]);
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    importImages(Array.from(e.target.files ?? []));
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  // The user picked a painting: switch to the preset assigned to it, if any.
+  // Deep links, tour samples and keyframe previews carry their own config and bypass this.
+  const selectPainting = (painting: Painting) => {
+    setSelectedPainting(painting);
+    const preset = getPaintingPreset(painting.id);
+    if (!preset) return;
+    setActivePresetId(preset.id);
+    setConfig(preset.config);
+  };
+
+  const updateUploadedPainting = (id: string, fields: Partial<UploadFields>) => {
+    const update = (p: Painting) => (p.id === id ? { ...p, ...fields } : p);
+    setPaintings(prev => prev.map(update));
+    setSelectedPainting(update);
+    updateUpload(id, fields);
+  };
+
+  const deleteUploadedPainting = (painting: Painting) => {
+    setPaintings(prev => prev.filter(p => p.id !== painting.id));
+    setSelectedPainting(prev => (prev.id === painting.id ? DEFAULT_PAINTINGS[0] : prev));
+    deleteUpload(painting);
+  };
+
+  // Paste images anywhere outside text fields
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if ((e.target as HTMLElement | null)?.closest?.('input, textarea, [contenteditable="true"]')) return;
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.length === 0) return;
+      e.preventDefault();
+      importImages(files);
     };
 
-    fetchAI();
-  }, [selectedPainting, geminiConfigured]);
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [importImages]);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Moving between child elements fires dragleave too
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    importImages(Array.from(e.dataTransfer.files));
+  };
+
+  useEffect(() => {
+    if (uploadNotices.length === 0) return;
+    const timer = window.setTimeout(() => setUploadNotices([]), UPLOAD_NOTICE_MS);
+    return () => window.clearTimeout(timer);
+  }, [uploadNotices]);
+
+  // Track geometry cache usage for the Controls panel
+  useEffect(() => subscribeGeometryCacheStats(setCacheStats), []);
+
+  // Chat highlights refer to the painting they were asked about
+  useEffect(() => setHighlights([]), [selectedPainting.id]);
+
+  const insightConfigured = getInsightProvider().isConfigured();
+
+  const changeInsightProvider = (id: InsightProviderId) => {
+    setInsightProvider(id);
+    setInsightProviderId(id);
+  };
+
+  // Fetch AI Analysis when the painting or provider changes (uploads included: the model sees the pixels).
+  // Switching paintings aborts the previous request so a late reply never overwrites the new one.
+  // Keyed on the image rather than the object, so editing an upload's title does not re-run a paid request.
+  useEffect(() => {
+    if (!insightConfigured) {
+      setAiData({
+        analysis: t('insight.notConfigured'),
+        mood: t('insight.notConfiguredMood')
+      });
+      setIsLoadingAI(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoadingAI(true);
+    setAiData(null);
+
+    analyzePainting(selectedPainting, {
+      signal: controller.signal,
+      tracks: audioPlayerApiRef.current?.getTracks(),
+      locale
+    })
+      .then((result) => {
+        if (!controller.signal.aborted) setAiData(result);
+      })
+      .catch((e) => {
+        if (controller.signal.aborted || isAbortError(e)) return;
+        console.error(e);
+        setAiData({ analysis: t('insight.napping'), mood: t('insight.nappingMood') });
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingAI(false);
+      });
+
+    return () => controller.abort();
+  }, [selectedPainting.id, selectedPainting.url, insightProviderId, locale]);
+
+  // --- Exhibition ---
+
+  useEffect(() => saveExhibition(exhibition), [exhibition]);
+
+  const placements = useMemo(
+    () => layoutExhibition(exhibitionPaintings(paintings, exhibition), exhibition.layout),
+    [paintings, exhibition.hidden, exhibition.layout]
+  );
+
+  const changeExhibition = (next: ExhibitionSettings) => {
+    if (exhibition.enabled && !next.enabled) cameraApiRef.current?.flyTo(HOME_VIEW).then(scheduleHashUpdate);
+    setExhibition(next);
+  };
+
+  // Fly to the selected painting, whether it was clicked in the scene or picked in the gallery.
+  // Placements are read, not watched: showing or hiding other paintings should not move the camera.
+  useEffect(() => {
+    if (!exhibition.enabled || isTourPlaying) return;
+    const placement = placements.find(p => p.painting.id === selectedPainting.id);
+    if (placement) cameraApiRef.current?.flyTo(viewpointFor(placement)).then(scheduleHashUpdate);
+  }, [exhibition.enabled, exhibition.layout, selectedPainting.id]);
+
+  // --- Tour ---
+
+  useEffect(() => saveTour(tour), [tour]);
+
+  // Settings blended between keyframes, read by the particle clouds every frame so playback
+  // does not re-render the app; React state catches up at each keyframe and when the tour stops
+  const tourConfigRef = useRef<ParticleConfig | null>(null);
+
+  const stopTour = () => {
+    if (tourConfigRef.current) setConfig(tourConfigRef.current);
+    tourConfigRef.current = null;
+    setIsTourPlaying(false);
+  };
+
+  const applyTourSample = useCallback((sample: Pick<TourSample, 'config' | 'paintingId'>) => {
+    setConfig(sample.config);
+    const painting = paintings.find(p => p.id === sample.paintingId);
+    if (painting) setSelectedPainting(prev => (prev.id === painting.id ? prev : painting));
+  }, [paintings]);
+
+  const previewKeyframe = (keyframe: TourKeyframe) => {
+    stopTour();
+    applyTourSample(keyframe);
+    cameraApiRef.current?.flyTo(keyframe.camera).then(scheduleHashUpdate);
+  };
+
+  // Touching the camera stops a tour; a kiosk tour picks up again once the visitor leaves
+  const kioskTimerRef = useRef<number>(0);
+
+  const handleControlsStart = () => {
+    window.clearTimeout(kioskTimerRef.current);
+    stopTour();
+  };
+
+  const handleControlsEnd = () => {
+    scheduleHashUpdate();
+    if (tour.autoplay && tour.keyframes.length > 1) {
+      kioskTimerRef.current = window.setTimeout(() => setIsTourPlaying(true), KIOSK_RESUME_MS);
+    }
+  };
+
+  useEffect(() => () => window.clearTimeout(kioskTimerRef.current), []);
+
+  const applyAiSuggestion = () => {
+    if (!aiData) return;
+    const { suggestedConfig, suggestedMusic } = aiData;
+    if (suggestedConfig) setConfig(prev => ({ ...prev, ...suggestedConfig }));
+    if (suggestedMusic?.trackId && !audioPlayerApiRef.current?.cueTrack(suggestedMusic.trackId)) {
+      console.warn(`Suggested track ${suggestedMusic.trackId} is no longer in the playlist`);
+    }
+  };
 
   return (
-    <div className="relative w-full h-full bg-gray-900">
+    <div
+      className="relative w-full h-full bg-gray-900"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       
       <Controls 
         paintings={paintings}
+        collections={collections}
         selectedPainting={selectedPainting}
-        onSelectPainting={setSelectedPainting}
+        onSelectPainting={selectPainting}
         onUpload={handleImageUpload}
+        onUpdateUpload={updateUploadedPainting}
+        onDeleteUpload={deleteUploadedPainting}
         config={config}
         onConfigChange={setConfig}
         aiData={aiData}
         isLoadingAI={isLoadingAI}
-        hasGeminiApiKey={geminiConfigured}
+        onApplySuggestion={applyAiSuggestion}
+        onHighlight={setHighlights}
+        chatHistories={chatHistories}
+        onChatHistoriesChange={setChatHistories}
+        insightConfigured={insightConfigured}
+        insightProviderId={insightProviderId}
+        onInsightProviderChange={changeInsightProvider}
+        cacheStats={cacheStats}
+        onClearCache={clearGeometryCache}
       >
+        <BrushPanel brush={brush} onChange={setBrush} />
+        <ExhibitionPanel
+          settings={exhibition}
+          onChange={changeExhibition}
+          selectedPainting={selectedPainting}
+          config={config}
+          paintingCount={paintings.filter(p => !exhibition.hidden.includes(p.id)).length}
+        />
+        <TourPanel
+          tour={tour}
+          onChange={setTour}
+          playing={isTourPlaying}
+          onPlayingChange={(playing) => (playing ? setIsTourPlaying(true) : stopTour())}
+          onPreview={previewKeyframe}
+          cameraApiRef={cameraApiRef}
+          config={config}
+          selectedPainting={selectedPainting}
+          paintings={paintings}
+        />
         {/* Inject AudioPlayer inside the Controls sidebar */}
-        <AudioPlayer audioDataRef={audioDataRef} />
+        <AudioPlayer audioDataRef={audioDataRef} audioStreamRef={audioStreamRef} apiRef={audioPlayerApiRef} />
+        <ExportPanel
+          sceneStateRef={sceneStateRef}
+          cameraApiRef={cameraApiRef}
+          audioStreamRef={audioStreamRef}
+          audioDataRef={audioDataRef}
+          painting={selectedPainting}
+          config={config}
+          onFrameloopChange={setFrameloop}
+        />
       </Controls>
 
       <Canvas
-        camera={{ position: [0, 0, 180], fov: 50 }} // Moved back to 180 to ensure full image visibility
+        camera={{ position: HOME_VIEW.position, fov: 50 }} // Moved back to 180 to ensure full image visibility
         dpr={[1, 2]} // Handle high DPI screens
         gl={{ antialias: true, alpha: false }}
+        frameloop={frameloop}
+        onCreated={(state) => { sceneStateRef.current = state; }}
       >
         <color attach="background" args={['#050505']} />
         
         <Suspense fallback={null}>
-            <Stars radius={150} depth={50} count={5000} factor={4} saturation={0} fade speed={0.5} />
-            <group position={[0, 0, 0]}>
-               <ParticleSystem 
-                  imageUrl={selectedPainting.url} 
-                  config={config}
-                  audioDataRef={audioDataRef}
-               />
+            <group name={BACKDROP_NAME}>
+              <Stars radius={150} depth={50} count={5000} factor={4} saturation={0} fade speed={0.5} />
             </group>
+            {exhibition.enabled ? (
+              <Exhibition
+                placements={placements}
+                config={config}
+                liveConfigRef={tourConfigRef}
+                overrides={exhibition.overrides}
+                selectedId={selectedPainting.id}
+                highlights={highlights}
+                brush={brush}
+                audioDataRef={audioDataRef}
+                onSelect={selectPainting}
+              />
+            ) : (
+              <group position={[0, 0, 0]}>
+                 <ParticleSystem 
+                    imageUrl={selectedPainting.url} 
+                    config={config}
+                    liveConfigRef={tourConfigRef}
+                    audioDataRef={audioDataRef}
+                    highlights={highlights}
+                    brush={brush}
+                 />
+              </group>
+            )}
         </Suspense>
 
+        <CameraBridge cameraApiRef={cameraApiRef} initialState={initialView.link?.camera} />
+        <TourPlayer
+          tour={tour}
+          playing={isTourPlaying}
+          cameraApiRef={cameraApiRef}
+          audioPlayerApiRef={audioPlayerApiRef}
+          liveConfigRef={tourConfigRef}
+          onSample={applyTourSample}
+          onEnd={stopTour}
+        />
+
         <OrbitControls 
+            makeDefault
+            onStart={handleControlsStart}
+            onEnd={handleControlsEnd}
             enablePan={true} 
             enableZoom={true} 
             enableRotate={true}
-            autoRotate={config.dispersion > 2} // Auto rotate if effect is intense
+            autoRotate={!isTourPlaying && config.dispersion > 2} // Auto rotate if effect is intense
             autoRotateSpeed={0.5}
             zoomSpeed={0.8}
             rotateSpeed={0.5}
         />
       </Canvas>
+
+      {isDraggingFiles && (
+        <div className="absolute inset-4 z-20 pointer-events-none rounded-2xl border-2 border-dashed border-white/60 bg-black/40 flex items-center justify-center">
+          <span className="text-sm text-white tracking-wide">{t('upload.dropHint')}</span>
+        </div>
+      )}
+
+      {uploadNotices.length > 0 && (
+        <button
+          onClick={() => setUploadNotices([])}
+          title={t('upload.dismiss')}
+          className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-1"
+        >
+          {uploadNotices.map((notice, i) => (
+            <span
+              key={i}
+              className={`px-3 py-1.5 rounded-lg text-xs backdrop-blur-md border ${
+                notice.error ? 'bg-red-950/80 border-red-500/40 text-red-200' : 'bg-black/70 border-white/10 text-gray-200'
+              }`}
+            >
+              {t(notice.key, notice.params)}
+            </span>
+          ))}
+        </button>
+      )}
     </div>
   );
 };
@@ -1,88 +1,165 @@
-
 import React, { useEffect, useRef, useState } from 'react';
-import { AudioData, Track } from '../types';
+import { AudioData, AudioPlayerApi, AudioSourceKind, Track } from '../types';
+import {
+  addAudioFiles,
+  BUILT_IN_TRACKS,
+  deleteUserTrack,
+  loadPlaylist,
+  releaseTrack,
+  savePlaylistOrder
+} from '../services/audioLibrary';
+import {
+  attachMediaElement,
+  attachMicrophone,
+  AudioGraph,
+  closeAudioGraph,
+  createAudioGraph,
+  isMicrophoneSupported,
+  listAudioInputs
+} from '../services/audioInput';
+import {
+  AnalysisSettings,
+  BandId,
+  createAudioAnalyzer,
+  DEFAULT_ANALYSIS_SETTINGS,
+  loadAnalysisSettings,
+  saveAnalysisSettings
+} from '../services/audioAnalysis';
+import { MessageKey } from '../services/i18n';
+import SpectrumVisualizer from './SpectrumVisualizer';
+import { useI18n } from './I18nProvider';
+
+const formatTime = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const BAND_LABELS: Record<BandId, MessageKey> = { low: 'audio.bandLow', mid: 'audio.bandMid', high: 'audio.bandHigh' };
 
 interface AudioPlayerProps {
   audioDataRef: React.MutableRefObject<AudioData>;
+  // Receives the audio graph output so it can be recorded alongside the canvas
+  audioStreamRef?: React.MutableRefObject<MediaStream | null>;
+  // Lets the app read the playlist and cue tracks (e.g. the AI music suggestion)
+  apiRef?: React.MutableRefObject<AudioPlayerApi | null>;
 }
 
-// Using both MP3 and OGG for maximum browser compatibility
-const PLAYLIST: Track[] = [
-  {
-    title: "Gymnopédie No. 1",
-    artist: "Erik Satie",
-    sources: [
-        { url: "https://upload.wikimedia.org/wikipedia/commons/transcoded/3/35/Gymnopedie_No_1.ogg/Gymnopedie_No_1.ogg.mp3", type: "audio/mpeg" },
-        { url: "https://upload.wikimedia.org/wikipedia/commons/3/35/Gymnopedie_No_1.ogg", type: "audio/ogg" }
-    ]
-  },
-  {
-    title: "Clair de Lune",
-    artist: "Claude Debussy",
-    sources: [
-        { url: "https://upload.wikimedia.org/wikipedia/commons/transcoded/2/2f/Clair_de_lune_%28Debussy%29_Suite_bergamasque.ogg/Clair_de_lune_%28Debussy%29_Suite_bergamasque.ogg.mp3", type: "audio/mpeg" },
-        { url: "https://upload.wikimedia.org/wikipedia/commons/2/2f/Clair_de_lune_%28Debussy%29_Suite_bergamasque.ogg", type: "audio/ogg" }
-    ]
-  },
-  {
-    title: "Moonlight Sonata",
-    artist: "Ludwig van Beethoven",
-    sources: [
-        { url: "https://upload.wikimedia.org/wikipedia/commons/transcoded/e/eb/Beethoven_Moonlight_1st_movement.ogg/Beethoven_Moonlight_1st_movement.ogg.mp3", type: "audio/mpeg" },
-        { url: "https://upload.wikimedia.org/wikipedia/commons/e/eb/Beethoven_Moonlight_1st_movement.ogg", type: "audio/ogg" }
-    ]
-  }
-];
-
-const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioDataRef }) => {
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioDataRef, audioStreamRef, apiRef }) => {
+  const { t } = useI18n();
   const audioRef = useRef<HTMLAudioElement>(null);
   const requestRef = useRef<number>(0);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
-  
+  const graphRef = useRef<AudioGraph | null>(null);
+  const [analyzer] = useState(() => createAudioAnalyzer(loadAnalysisSettings()));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [playlist, setPlaylist] = useState<Track[]>(BUILT_IN_TRACKS);
+  const playlistRef = useRef(playlist);
+  playlistRef.current = playlist;
+
+  const [sourceKind, setSourceKind] = useState<AudioSourceKind>('playlist');
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTrackIndex, setCurrentTrackIndex] = useState(0);
-  const [isInitialized, setIsInitialized] = useState(false);
+  const [showPlaylist, setShowPlaylist] = useState(false);
+
+  // Live input
+  const [micActive, setMicActive] = useState(false);
+  const [micError, setMicError] = useState<MessageKey | null>(null);
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState('');
 
-  const currentTrack = PLAYLIST[currentTrackIndex];
+  // Analysis
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [bpm, setBpm] = useState(0);
 
-  const initAudio = () => {
-    if (isInitialized || !audioRef.current) return;
+  // Playback position of the current track
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [liveElapsed, setLiveElapsed] = useState(0);
+
+  // A MediaElementSource binds its <audio> element to one AudioContext for good,
+  // so every new graph gets a freshly mounted element
+  const [elementKey, setElementKey] = useState(0);
+
+  const currentTrack: Track | undefined = playlist[currentTrackIndex];
+  const isActive = sourceKind === 'playlist' ? isPlaying : micActive;
+  const missingBuiltIns = BUILT_IN_TRACKS.filter(track => !playlist.some(t => t.id === track.id));
+
+  // --- Audio Graph ---
+
+  const closeGraph = () => {
+    if (!graphRef.current) return;
+    closeAudioGraph(graphRef.current);
+    graphRef.current = null;
+    if (audioStreamRef) audioStreamRef.current = null;
+  };
+
+  // Stop whatever source is running and release its AudioContext / capture stream
+  const teardown = () => {
+    audioRef.current?.pause();
+    if (graphRef.current) {
+      closeGraph();
+      setElementKey(key => key + 1);
+    }
+    setIsPlaying(false);
+    setMicActive(false);
+    // Beat history and auto-gain peaks belong to the old source
+    analyzer.reset();
+  };
+
+  const initPlaylistAudio = () => {
+    if (graphRef.current || !audioRef.current) return;
 
-    // Fix for Safari which needs webkitAudioContext
-    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-    const audioCtx = new AudioContext();
-    
-    const analyser = audioCtx.createAnalyser();
-    analyser.fftSize = 512;
-    
-    // Connect audio element to analyser
     // Note: This must be done after user interaction
-    if (!sourceRef.current) {
-        try {
-            const source = audioCtx.createMediaElementSource(audioRef.current);
-            source.connect(analyser);
-            analyser.connect(audioCtx.destination);
-            sourceRef.current = source;
-        } catch(e) {
-            console.warn("MediaElementSource creation failed", e);
-        }
+    const graph = createAudioGraph();
+    try {
+      attachMediaElement(graph, audioRef.current);
+    } catch (e) {
+      console.warn("MediaElementSource creation failed", e);
     }
 
-    analyserRef.current = analyser;
-    setIsInitialized(true);
+    graphRef.current = graph;
+    if (audioStreamRef) audioStreamRef.current = graph.recordingStream;
+  };
+
+  const selectSource = (kind: AudioSourceKind) => {
+    if (kind === sourceKind) return;
+    teardown();
+    setMicError(null);
+    setSourceKind(kind);
   };
 
+  // Release the graph and any user-track object URLs on unmount
+  useEffect(() => () => {
+    closeGraph();
+    playlistRef.current.forEach(releaseTrack);
+  }, []);
+
+  // --- Playlist Source ---
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPlaylist().then(tracks => {
+      if (cancelled) {
+        tracks.forEach(releaseTrack);
+        return;
+      }
+      setPlaylist(tracks);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const togglePlay = async () => {
-    if (!audioRef.current) return;
+    if (!audioRef.current || !currentTrack) return;
 
-    if (!isInitialized) {
-      initAudio();
-    }
+    initPlaylistAudio();
 
     // Resume context if suspended (browser policy)
-    if (analyserRef.current?.context.state === 'suspended') {
-      await (analyserRef.current.context as AudioContext).resume();
+    const context = graphRef.current?.context;
+    if (context?.state === 'suspended') {
+      await context.resume();
     }
 
     if (isPlaying) {
@@ -100,53 +177,177 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioDataRef }) => {
   };
 
   const nextTrack = () => {
-    const next = (currentTrackIndex + 1) % PLAYLIST.length;
+    if (!playlist.length) return;
+    const next = (currentTrackIndex + 1) % playlist.length;
+    if (next === currentTrackIndex && audioRef.current) {
+      // Single-track playlist: loop it
+      audioRef.current.currentTime = 0;
+      if (isPlaying) audioRef.current.play().catch(e => console.warn("Replay failed", e));
+      return;
+    }
     setCurrentTrackIndex(next);
     // isPlaying state remains true, effect handles playback
   };
 
   const prevTrack = () => {
-    const prev = (currentTrackIndex - 1 + PLAYLIST.length) % PLAYLIST.length;
+    if (!playlist.length) return;
+    const prev = (currentTrackIndex - 1 + playlist.length) % playlist.length;
     setCurrentTrackIndex(prev);
   };
 
+  // Select a track and start it. A live input is never interrupted; the track is
+  // just selected for when the user switches back to the playlist.
+  const cueTrack = (id: string): boolean => {
+    const index = playlist.findIndex(track => track.id === id);
+    if (index < 0) return false;
+
+    if (sourceKind !== 'playlist' || isPlaying) {
+      setCurrentTrackIndex(index);
+    } else if (index === currentTrackIndex) {
+      togglePlay();
+    } else {
+      // The track-change effect starts playback once the new track is loaded
+      initPlaylistAudio();
+      graphRef.current?.context.resume();
+      setCurrentTrackIndex(index);
+      setIsPlaying(true);
+    }
+    return true;
+  };
+
+  useEffect(() => {
+    if (!apiRef) return;
+    const api: AudioPlayerApi = {
+      getTracks: () => playlist.map(({ id, title, artist }) => ({ id, title, artist })),
+      cueTrack,
+      getPlaybackTime: () =>
+        sourceKind === 'playlist' && isPlaying && audioRef.current ? audioRef.current.currentTime : null
+    };
+    apiRef.current = api;
+    return () => {
+      if (apiRef.current === api) apiRef.current = null;
+    };
+  }, [apiRef, playlist, sourceKind, isPlaying, currentTrackIndex]);
+
+  const updatePlaylist = (next: Track[]) => {
+    setPlaylist(next);
+    savePlaylistOrder(next);
+  };
+
+  const handleAddFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!files.length) return;
+
+    const tracks = await addAudioFiles(files, t('audio.localFile'));
+    if (tracks.length < files.length) {
+      console.warn(`Skipped ${files.length - tracks.length} non-audio file(s)`);
+    }
+    if (tracks.length) updatePlaylist([...playlist, ...tracks]);
+  };
+
+  const removeTrack = (index: number) => {
+    const track = playlist[index];
+    const next = playlist.filter((_, i) => i !== index);
+
+    if (index === currentTrackIndex) {
+      audioRef.current?.pause();
+      setIsPlaying(false);
+      setCurrentTrackIndex(Math.min(index, Math.max(0, next.length - 1)));
+    } else if (index < currentTrackIndex) {
+      setCurrentTrackIndex(currentTrackIndex - 1);
+    }
+
+    updatePlaylist(next);
+    if (track.userFile) {
+      deleteUserTrack(track.id);
+      releaseTrack(track);
+    }
+  };
+
+  const moveTrack = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= playlist.length) return;
+
+    const next = [...playlist];
+    [next[index], next[target]] = [next[target], next[index]];
+    if (currentTrackIndex === index) setCurrentTrackIndex(target);
+    else if (currentTrackIndex === target) setCurrentTrackIndex(index);
+    updatePlaylist(next);
+  };
+
+  const restoreBuiltIns = () => updatePlaylist([...playlist, ...missingBuiltIns]);
+
+  // --- Live Input Source ---
+
+  const refreshDevices = () => {
+    listAudioInputs().then(setInputDevices).catch(err => console.warn("Failed to list audio inputs", err));
+  };
+
+  const startMicrophone = async (id: string = deviceId) => {
+    teardown();
+    setMicError(null);
+
+    const graph = createAudioGraph();
+    try {
+      await attachMicrophone(graph, id || undefined);
+    } catch (err) {
+      closeAudioGraph(graph);
+      console.error("Audio input failed", err);
+      setMicError(
+        err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'audio.micDenied'
+          : 'audio.micFailed'
+      );
+      return;
+    }
+
+    graphRef.current = graph;
+    if (audioStreamRef) audioStreamRef.current = graph.recordingStream;
+    setMicActive(true);
+    // Device labels become available once permission is granted
+    refreshDevices();
+  };
+
+  const handleDeviceChange = (id: string) => {
+    setDeviceId(id);
+    if (micActive) startMicrophone(id);
+  };
+
+  useEffect(() => {
+    if (sourceKind === 'microphone') refreshDevices();
+  }, [sourceKind]);
+
+  // --- Analysis Settings ---
+
+  useEffect(() => {
+    analyzer.setSettings(analysisSettings);
+    saveAnalysisSettings(analysisSettings);
+  }, [analysisSettings]);
+
+  const setBandEdge = (band: BandId, edge: 0 | 1, hz: number) => {
+    if (!Number.isFinite(hz) || hz < 0) return;
+    const range: [number, number] = [...analysisSettings.bands[band]];
+    range[edge] = hz;
+    if (range[0] >= range[1]) return;
+    setAnalysisSettings({ ...analysisSettings, bands: { ...analysisSettings.bands, [band]: range } });
+  };
+
+  // The tempo readout does not need to update every frame
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(() => setBpm(Math.round(audioDataRef.current.bpm)), 500);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
   // Analysis Loop
   const analyze = () => {
-    if (analyserRef.current && isPlaying) {
-      const bufferLength = analyserRef.current.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      analyserRef.current.getByteFrequencyData(dataArray);
-
-      // Simple frequency band splitting
-      // fftSize 512 -> 256 bins.
-      // SampleRate ~44100. Bin width ~172Hz.
-      
-      // Bass: indices 0-4 (~0 - 800Hz)
-      let bassSum = 0;
-      for (let i = 0; i < 5; i++) bassSum += dataArray[i];
-      const low = (bassSum / 5) / 255;
-
-      // Mids: indices 5-20 (~800 - 3500Hz)
-      let midSum = 0;
-      for (let i = 5; i < 20; i++) midSum += dataArray[i];
-      const mid = (midSum / 15) / 255;
-
-      // Highs: indices 20-100 (~3500Hz+)
-      let highSum = 0;
-      for (let i = 20; i < 100; i++) highSum += dataArray[i];
-      const high = (highSum / 80) / 255;
-
-      // Write raw normalized values to ref
-      audioDataRef.current = { low, mid, high };
-    } else if (!isPlaying) {
+    const analyser = graphRef.current?.analyser;
+    const time = performance.now() / 1000;
+    audioDataRef.current = analyser && isActive
+      ? analyzer.process(analyser, time)
       // Decay to zero if paused
-      const current = audioDataRef.current;
-      audioDataRef.current = {
-        low: current.low * 0.9,
-        mid: current.mid * 0.9,
-        high: current.high * 0.9
-      };
-    }
+      : analyzer.decay(time);
 
     requestRef.current = requestAnimationFrame(analyze);
   };
@@ -154,14 +355,14 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioDataRef }) => {
   useEffect(() => {
     requestRef.current = requestAnimationFrame(analyze);
     return () => cancelAnimationFrame(requestRef.current);
-  }, [isPlaying]);
+  }, [isActive]);
 
   // Handle Track Change
   useEffect(() => {
-    if (audioRef.current) {
+    if (audioRef.current && currentTrack) {
         // Load the new sources
         audioRef.current.load();
-        
+
         if (isPlaying) {
             const playPromise = audioRef.current.play();
             if (playPromise !== undefined) {
@@ -173,7 +374,22 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioDataRef }) => {
             }
         }
     }
-  }, [currentTrackIndex]);
+  }, [currentTrack?.id]);
+
+  const seek = (time: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  // Elapsed listening time for live input
+  useEffect(() => {
+    if (!micActive) return;
+    const startedAt = performance.now();
+    setLiveElapsed(0);
+    const timer = setInterval(() => setLiveElapsed((performance.now() - startedAt) / 1000), 1000);
+    return () => clearInterval(timer);
+  }, [micActive]);
 
   const handleAudioError = () => {
     // Simple string logging to avoid cyclic object error
@@ -181,48 +397,287 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioDataRef }) => {
     setIsPlaying(false);
   };
 
+  const sourceTabClass = (kind: AudioSourceKind) =>
+    `flex-1 px-2 py-1 text-[10px] rounded border transition-colors ${
+      sourceKind === kind
+        ? 'bg-white text-black border-white'
+        : 'bg-transparent text-gray-400 border-gray-600 hover:border-gray-400'
+    }`;
+
   return (
     <div className="mt-4 pt-4 border-t border-white/10">
-      <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wider mb-2">Audio Symphony</h3>
-      
+      <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wider mb-2">{t('audio.title')}</h3>
+
+      <div className="flex gap-1 mb-2">
+        <button onClick={() => selectSource('playlist')} className={sourceTabClass('playlist')}>{t('audio.playlist')}</button>
+        <button
+          onClick={() => selectSource('microphone')}
+          disabled={!isMicrophoneSupported()}
+          className={`${sourceTabClass('microphone')} disabled:opacity-40`}
+        >
+          {t('audio.mic')}
+        </button>
+      </div>
+
       <div className="flex flex-col gap-2 bg-black/40 rounded-lg p-3 border border-white/5">
-        <div className="flex items-center justify-between">
-            <div className="truncate pr-2">
-                <div className="text-xs font-bold text-white truncate">{currentTrack.title}</div>
-                <div className="text-[10px] text-gray-400 truncate">{currentTrack.artist}</div>
-            </div>
-            <div className="flex items-center gap-2 flex-shrink-0">
-               <button onClick={prevTrack} className="p-1 hover:text-blue-400 text-gray-300">
-                  <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h2v12H6zm3.5 6l8.5 6V6z"/></svg>
-               </button>
-               <button onClick={togglePlay} className="p-1.5 bg-white text-black rounded-full hover:bg-blue-400 transition-colors">
-                  {isPlaying ? (
-                      <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>
-                  ) : (
-                      <svg className="w-3 h-3 translate-x-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
-                  )}
-               </button>
-               <button onClick={nextTrack} className="p-1 hover:text-blue-400 text-gray-300">
-                 <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"/></svg>
-               </button>
+        {sourceKind === 'playlist' ? (
+          <div className="flex items-center justify-between">
+              <div className="truncate pr-2">
+                  <div className="text-xs font-bold text-white truncate">{currentTrack?.title ?? t('audio.emptyPlaylist')}</div>
+                  <div className="text-[10px] text-gray-400 truncate">{currentTrack?.artist ?? t('audio.addFilesHint')}</div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                 <button onClick={prevTrack} className="p-1 hover:text-blue-400 text-gray-300">
+                    <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h2v12H6zm3.5 6l8.5 6V6z"/></svg>
+                 </button>
+                 <button
+                   onClick={togglePlay}
+                   disabled={!currentTrack}
+                   className="p-1.5 bg-white text-black rounded-full hover:bg-blue-400 transition-colors disabled:opacity-40"
+                 >
+                    {isPlaying ? (
+                        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>
+                    ) : (
+                        <svg className="w-3 h-3 translate-x-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+                    )}
+                 </button>
+                 <button onClick={nextTrack} className="p-1 hover:text-blue-400 text-gray-300">
+                   <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"/></svg>
+                 </button>
+              </div>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-2">
+            <select
+              value={deviceId}
+              onChange={(e) => handleDeviceChange(e.target.value)}
+              className="w-full bg-black/40 border border-white/10 rounded text-xs text-gray-300 px-2 py-1 focus:outline-none"
+            >
+              <option value="">{t('audio.defaultInput')}</option>
+              {inputDevices.map((device, i) => (
+                <option key={device.deviceId || i} value={device.deviceId}>
+                  {device.label || t('audio.input', { n: i + 1 })}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => (micActive ? teardown() : startMicrophone())}
+              className={`w-full px-2 py-1 text-xs rounded border transition-colors ${
+                micActive
+                  ? 'border-red-500 text-red-300 hover:bg-red-500/20'
+                  : 'border-gray-600 text-gray-300 hover:border-white hover:text-white'
+              }`}
+            >
+              {micActive ? t('audio.stopListening') : t('audio.startListening')}
+            </button>
+            {micError && <p className="text-[10px] text-red-400">{t(micError)}</p>}
+          </div>
+        )}
+
+        {/* Spectrum / waveform with the analysis bands */}
+        <SpectrumVisualizer
+          graphRef={graphRef}
+          audioDataRef={audioDataRef}
+          bands={analysisSettings.bands}
+          isActive={isActive}
+        />
+
+        {/* Seek / elapsed time */}
+        {sourceKind === 'playlist' ? (
+          <div className="flex items-center gap-2 text-[10px] text-gray-400 tabular-nums">
+            <span>{formatTime(currentTime)}</span>
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={0.1}
+              value={Math.min(currentTime, duration || 0)}
+              disabled={!duration}
+              onChange={(e) => seek(parseFloat(e.target.value))}
+              className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-40"
+            />
+            <span>{duration ? formatTime(duration) : '--:--'}</span>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between text-[10px] text-gray-400 tabular-nums">
+            <span className={micActive ? 'text-red-400' : ''}>{micActive ? t('audio.live') : t('audio.notListening')}</span>
+            <span>{formatTime(liveElapsed)}</span>
+          </div>
+        )}
+      </div>
+
+      {sourceKind === 'playlist' && (
+        <div className="mt-2">
+          <button
+            onClick={() => setShowPlaylist(!showPlaylist)}
+            className="w-full flex items-center justify-between text-[10px] text-gray-400 hover:text-white"
+          >
+            <span>{t('audio.playlistCount', { count: playlist.length })}</span>
+            <span className={`transform transition-transform ${showPlaylist ? 'rotate-180' : ''}`}>▼</span>
+          </button>
+
+          {showPlaylist && (
+            <div className="mt-2 space-y-1">
+              {playlist.map((track, index) => (
+                <div
+                  key={track.id}
+                  className={`flex items-center gap-1 text-[10px] rounded px-1 py-0.5 ${
+                    index === currentTrackIndex ? 'bg-white/10 text-white' : 'text-gray-400'
+                  }`}
+                >
+                  <button onClick={() => setCurrentTrackIndex(index)} className="flex-1 truncate text-left hover:text-white">
+                    {track.title} <span className="text-gray-500">— {track.artist}</span>
+                  </button>
+                  <button onClick={() => moveTrack(index, -1)} className="px-0.5 hover:text-white" title={t('audio.moveUp')}>↑</button>
+                  <button onClick={() => moveTrack(index, 1)} className="px-0.5 hover:text-white" title={t('audio.moveDown')}>↓</button>
+                  <button onClick={() => removeTrack(index)} className="px-0.5 hover:text-red-400" title={t('audio.remove')}>×</button>
+                </div>
+              ))}
+
+              <div className="flex gap-1 pt-1">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex-1 px-2 py-1 text-[10px] rounded border border-dashed border-gray-500 text-gray-300 hover:border-white hover:text-white transition-colors"
+                >
+                  {t('audio.addFiles')}
+                </button>
+                {missingBuiltIns.length > 0 && (
+                  <button
+                    onClick={restoreBuiltIns}
+                    className="px-2 py-1 text-[10px] rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors"
+                  >
+                    {t('audio.restoreBuiltIns')}
+                  </button>
+                )}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="audio/*"
+                multiple
+                className="hidden"
+                onChange={handleAddFiles}
+              />
             </div>
+          )}
         </div>
-        
-        {/* Visualizer Bars */}
-        <div className="flex items-end justify-between h-6 gap-0.5 mt-1 opacity-80">
-             <div className={`bg-blue-500 w-1/3 rounded-t-sm transition-all duration-75 ${isPlaying ? 'animate-pulse' : 'h-1'}`} style={{ height: isPlaying ? '80%' : '10%' }}></div>
-             <div className={`bg-purple-500 w-1/3 rounded-t-sm transition-all duration-100 ${isPlaying ? 'animate-pulse delay-75' : 'h-1'}`} style={{ height: isPlaying ? '60%' : '10%' }}></div>
-             <div className={`bg-pink-500 w-1/3 rounded-t-sm transition-all duration-150 ${isPlaying ? 'animate-pulse delay-150' : 'h-1'}`} style={{ height: isPlaying ? '90%' : '10%' }}></div>
-        </div>
+      )}
+
+      <div className="mt-2">
+        <button
+          onClick={() => setShowAnalysis(!showAnalysis)}
+          className="w-full flex items-center justify-between text-[10px] text-gray-400 hover:text-white"
+        >
+          <span>{t('audio.analysis')}{isActive && bpm > 0 ? ` · ${bpm} BPM` : ''}</span>
+          <span className={`transform transition-transform ${showAnalysis ? 'rotate-180' : ''}`}>▼</span>
+        </button>
+
+        {showAnalysis && (
+          <div className="mt-2 space-y-2 text-[10px] text-gray-400">
+            {(Object.keys(BAND_LABELS) as BandId[]).map(band => (
+              <div key={band} className="flex items-center justify-between gap-1">
+                <span className="w-12">{t(BAND_LABELS[band])}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={analysisSettings.bands[band][0]}
+                  onChange={(e) => setBandEdge(band, 0, parseFloat(e.target.value))}
+                  className="w-16 bg-black/40 border border-white/10 rounded px-1 py-0.5 focus:outline-none"
+                />
+                <span>–</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={analysisSettings.bands[band][1]}
+                  onChange={(e) => setBandEdge(band, 1, parseFloat(e.target.value))}
+                  className="w-16 bg-black/40 border border-white/10 rounded px-1 py-0.5 focus:outline-none"
+                />
+                <span>Hz</span>
+              </div>
+            ))}
+
+            <div>
+              <div className="flex justify-between mb-1">
+                <label>{t('audio.attack')}</label>
+                <span>{Math.round(analysisSettings.attack * 1000)}ms</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="0.3"
+                step="0.005"
+                value={analysisSettings.attack}
+                onChange={(e) => setAnalysisSettings({ ...analysisSettings, attack: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+
+            <div>
+              <div className="flex justify-between mb-1">
+                <label>{t('audio.release')}</label>
+                <span>{Math.round(analysisSettings.release * 1000)}ms</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="1.5"
+                step="0.01"
+                value={analysisSettings.release}
+                onChange={(e) => setAnalysisSettings({ ...analysisSettings, release: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+
+            <div>
+              <div className="flex justify-between mb-1">
+                <label>{t('audio.beatSensitivity')}</label>
+                <span>{analysisSettings.beatSensitivity.toFixed(1)}σ</span>
+              </div>
+              <input
+                type="range"
+                min="0.5"
+                max="4"
+                step="0.1"
+                value={analysisSettings.beatSensitivity}
+                onChange={(e) => setAnalysisSettings({ ...analysisSettings, beatSensitivity: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+
+            <label className="flex items-center justify-between cursor-pointer">
+              <span>{t('audio.autoGain')}</span>
+              <input
+                type="checkbox"
+                checked={analysisSettings.autoGain}
+                onChange={(e) => setAnalysisSettings({ ...analysisSettings, autoGain: e.target.checked })}
+                className="accent-blue-500 cursor-pointer"
+              />
+            </label>
+
+            <button
+              onClick={() => setAnalysisSettings(DEFAULT_ANALYSIS_SETTINGS)}
+              className="w-full px-2 py-1 rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors"
+            >
+              {t('audio.resetAnalysis')}
+            </button>
+          </div>
+        )}
       </div>
 
-      <audio 
-        ref={audioRef} 
-        crossOrigin="anonymous" 
-        onEnded={nextTrack} 
+      <audio
+        key={elementKey}
+        ref={audioRef}
+        crossOrigin="anonymous"
+        onEnded={nextTrack}
         onError={handleAudioError}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onDurationChange={(e) => setDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : 0)}
+        onEmptied={() => {
+          setCurrentTime(0);
+          setDuration(0);
+        }}
       >
-        {currentTrack.sources.map((source, index) => (
+        {currentTrack?.sources.map((source, index) => (
             <source key={index} src={source.url} type={source.type} />
         ))}
       </audio>
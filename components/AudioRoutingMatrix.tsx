@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { AudioModCurve, AudioModSource, AudioModTarget, AudioRoute } from '../types';
+import {
+  AUDIO_MOD_CURVES,
+  AUDIO_MOD_SOURCES,
+  AUDIO_MOD_TARGETS,
+  DEFAULT_AUDIO_ROUTES,
+  MAX_AUDIO_ROUTES,
+  ROUTE_RANGES
+} from '../services/audioRouting';
+import { useI18n } from './I18nProvider';
+
+interface AudioRoutingMatrixProps {
+  routes: AudioRoute[] | undefined;
+  onChange: (routes: AudioRoute[]) => void;
+}
+
+const selectClass = 'bg-black/40 border border-white/10 rounded text-[10px] text-gray-300 px-1 py-0.5 focus:outline-none';
+const numberClass = 'w-12 bg-black/40 border border-white/10 rounded text-[10px] text-gray-300 px-1 py-0.5 focus:outline-none';
+
+const AudioRoutingMatrix: React.FC<AudioRoutingMatrixProps> = ({ routes = DEFAULT_AUDIO_ROUTES, onChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const updateRoute = (index: number, patch: Partial<AudioRoute>) => {
+    onChange(routes.map((route, i) => (i === index ? { ...route, ...patch } : route)));
+  };
+
+  const updateNumber = (index: number, key: 'gain' | 'offset', raw: string) => {
+    const value = parseFloat(raw);
+    if (!Number.isFinite(value)) return;
+    const { min, max } = ROUTE_RANGES[key];
+    updateRoute(index, { [key]: Math.min(max, Math.max(min, value)) });
+  };
+
+  const addRoute = () => {
+    if (routes.length >= MAX_AUDIO_ROUTES) return;
+    onChange([...routes, { source: 'low', target: 'depth', gain: 1, offset: 0, curve: 'linear' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-xs text-gray-400 hover:text-white"
+      >
+        <span>{t('routing.title', { count: routes.length })}</span>
+        <span className={`transform transition-transform ${isOpen ? 'rotate-180' : ''}`}>▼</span>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-1">
+          <p className="text-[10px] text-gray-500">{t('routing.hint')}</p>
+
+          {routes.map((route, index) => (
+            <div key={index} className="space-y-1 pb-1 border-b border-white/5">
+              <div className="flex items-center gap-1">
+                <select
+                  value={route.source}
+                  onChange={(e) => updateRoute(index, { source: e.target.value as AudioModSource })}
+                  className={`${selectClass} flex-1`}
+                >
+                  {AUDIO_MOD_SOURCES.map(s => <option key={s.id} value={s.id}>{t(s.label)}</option>)}
+                </select>
+                <span className="text-[10px] text-gray-500">→</span>
+                <select
+                  value={route.target}
+                  onChange={(e) => updateRoute(index, { target: e.target.value as AudioModTarget })}
+                  className={`${selectClass} flex-1`}
+                >
+                  {AUDIO_MOD_TARGETS.map(target => <option key={target.id} value={target.id}>{t(target.label)}</option>)}
+                </select>
+                <button
+                  onClick={() => onChange(routes.filter((_, i) => i !== index))}
+                  className="px-1 text-[10px] text-gray-400 hover:text-red-400"
+                  title={t('routing.remove')}
+                >
+                  ×
+                </button>
+              </div>
+              <div className="flex items-center gap-1">
+                <select
+                  value={route.curve}
+                  onChange={(e) => updateRoute(index, { curve: e.target.value as AudioModCurve })}
+                  className={`${selectClass} flex-1`}
+                >
+                  {AUDIO_MOD_CURVES.map(c => <option key={c.id} value={c.id}>{t(c.label)}</option>)}
+                </select>
+                <input
+                  type="number"
+                  min={ROUTE_RANGES.gain.min}
+                  max={ROUTE_RANGES.gain.max}
+                  step={ROUTE_RANGES.gain.step}
+                  value={route.gain}
+                  onChange={(e) => updateNumber(index, 'gain', e.target.value)}
+                  className={numberClass}
+                  title={t('routing.gain')}
+                />
+                <input
+                  type="number"
+                  min={ROUTE_RANGES.offset.min}
+                  max={ROUTE_RANGES.offset.max}
+                  step={ROUTE_RANGES.offset.step}
+                  value={route.offset}
+                  onChange={(e) => updateNumber(index, 'offset', e.target.value)}
+                  className={numberClass}
+                  title={t('routing.offset')}
+                />
+              </div>
+            </div>
+          ))}
+
+          <div className="flex gap-1 pt-1">
+            <button
+              onClick={addRoute}
+              disabled={routes.length >= MAX_AUDIO_ROUTES}
+              className="flex-1 px-2 py-1 text-[10px] rounded border border-dashed border-gray-500 text-gray-300 hover:border-white hover:text-white transition-colors disabled:opacity-40"
+            >
+              {t('routing.add')}
+            </button>
+            <button
+              onClick={() => onChange(DEFAULT_AUDIO_ROUTES)}
+              className="px-2 py-1 text-[10px] rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors"
+            >
+              {t('routing.reset')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioRoutingMatrix;
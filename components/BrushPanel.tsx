@@ -0,0 +1,73 @@
+import React from 'react';
+import { BrushMode, BrushSettings } from '../types';
+import { BRUSH_MODES, BRUSH_RANGES } from '../services/brush';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface BrushPanelProps {
+  brush: BrushSettings;
+  onChange: (brush: BrushSettings) => void;
+}
+
+const MODE_LABELS: Record<BrushMode, MessageKey> = {
+  off: 'brush.off',
+  repel: 'brush.repel',
+  attract: 'brush.attract',
+  vortex: 'brush.vortex',
+  smear: 'brush.smear'
+};
+
+const SLIDERS: { key: 'radius' | 'strength'; label: MessageKey }[] = [
+  { key: 'radius', label: 'brush.radius' },
+  { key: 'strength', label: 'brush.strength' }
+];
+
+// Pointer brush mode and size (see services/brush.ts)
+const BrushPanel: React.FC<BrushPanelProps> = ({ brush, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="mt-4 pt-4 border-t border-white/10 space-y-2">
+      <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wider">{t('brush.title')}</h3>
+
+      <div className="flex flex-wrap gap-1">
+        {BRUSH_MODES.map(mode => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...brush, mode })}
+            className={`flex-1 px-2 py-0.5 text-[10px] rounded border transition-colors ${
+              brush.mode === mode ? 'bg-white text-black border-white' : 'text-gray-400 border-gray-600 hover:border-white hover:text-white'
+            }`}
+          >
+            {t(MODE_LABELS[mode])}
+          </button>
+        ))}
+      </div>
+
+      {brush.mode !== 'off' && (
+        <>
+          <p className="text-[10px] text-gray-500">{t('brush.hint')}</p>
+          {SLIDERS.map(({ key, label }) => (
+            <div key={key} className="space-y-1">
+              <div className="flex justify-between text-[10px] text-gray-500">
+                <label>{t(label)}</label>
+                <span>{brush[key].toFixed(1)}</span>
+              </div>
+              <input
+                type="range"
+                min={BRUSH_RANGES[key].min}
+                max={BRUSH_RANGES[key].max}
+                step={BRUSH_RANGES[key].step}
+                value={brush[key]}
+                onChange={(e) => onChange({ ...brush, [key]: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-400"
+              />
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BrushPanel;
@@ -0,0 +1,99 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { CameraApi, CameraState, Vec3 } from '../types';
+import { EASINGS } from '../services/particleMorph';
+
+interface CameraBridgeProps {
+  cameraApiRef: React.MutableRefObject<CameraApi | null>;
+  initialState?: Partial<CameraState>;
+}
+
+const DEFAULT_FLIGHT_SECONDS = 1.6;
+
+interface Flight {
+  from: CameraState;
+  to: CameraState;
+  start: number | null; // Clock time of the first frame
+  duration: number;
+  done: () => void;
+}
+
+const lerpVec3 = (a: Vec3, b: Vec3, t: number): Vec3 => [
+  a[0] + (b[0] - a[0]) * t,
+  a[1] + (b[1] - a[1]) * t,
+  a[2] + (b[2] - a[2]) * t
+];
+
+// Lives inside the Canvas and exposes the camera + default OrbitControls
+// to the rest of the app through a ref (like audioDataRef, avoids re-renders).
+const CameraBridge: React.FC<CameraBridgeProps> = ({ cameraApiRef, initialState }) => {
+  const camera = useThree((state) => state.camera);
+  const controls = useThree((state) => state.controls) as OrbitControlsImpl | null;
+  const flightRef = useRef<Flight | null>(null);
+
+  const endFlight = () => {
+    flightRef.current?.done();
+    flightRef.current = null;
+  };
+
+  useEffect(() => {
+    const api: CameraApi = {
+      getState: () => {
+        const target = controls?.target;
+        return {
+          position: [camera.position.x, camera.position.y, camera.position.z],
+          target: target ? [target.x, target.y, target.z] : [0, 0, 0]
+        };
+      },
+      setState: ({ position, target }) => {
+        if (position) camera.position.set(...position);
+        if (target && controls) controls.target.set(...target);
+        if (controls) controls.update();
+        else camera.lookAt(...(target ?? [0, 0, 0]));
+      },
+      flyTo: (to, duration = DEFAULT_FLIGHT_SECONDS) =>
+        new Promise((resolve) => {
+          endFlight();
+          flightRef.current = { from: api.getState(), to, start: null, duration, done: resolve };
+        })
+    };
+
+    cameraApiRef.current = api;
+    return () => {
+      if (cameraApiRef.current === api) cameraApiRef.current = null;
+    };
+  }, [camera, controls, cameraApiRef]);
+
+  // Dragging or zooming takes over from a running flight
+  useEffect(() => {
+    if (!controls) return;
+    controls.addEventListener('start', endFlight);
+    return () => controls.removeEventListener('start', endFlight);
+  }, [controls]);
+
+  // Restore the initial view once the controls are ready
+  useEffect(() => {
+    if (controls && initialState) cameraApiRef.current?.setState(initialState);
+  }, [controls]);
+
+  useFrame((state) => {
+    const flight = flightRef.current;
+    if (!flight) return;
+
+    const elapsed = state.clock.elapsedTime;
+    if (flight.start === null) flight.start = elapsed;
+    const progress = flight.duration > 0 ? Math.min(1, (elapsed - flight.start) / flight.duration) : 1;
+    const t = EASINGS.easeInOutCubic(progress);
+
+    cameraApiRef.current?.setState({
+      position: lerpVec3(flight.from.position, flight.to.position, t),
+      target: lerpVec3(flight.from.target, flight.to.target, t)
+    });
+    if (progress >= 1) endFlight();
+  });
+
+  return null;
+};
+
+export default CameraBridge;
@@ -1,69 +1,109 @@
 import React, { useState } from 'react';
-import { ParticleConfig, Painting, AIResponse } from '../types';
+import { ParticleConfig, Painting, PaintingCollection, AIResponse, GeometryCacheStats, MorphEasing, HighlightRegion, ChatMessage } from '../types';
+import { CONFIG_RANGES, MORPH_EASINGS } from '../services/configSchema';
+import { EASING_LABELS, LOCALES } from '../services/i18n';
+import { INSIGHT_PROVIDERS } from '../services/insightService';
+import { InsightProviderId } from '../services/insightProvider';
+import { UploadFields } from '../services/uploadLibrary';
+import PresetManager from './PresetManager';
+import AudioRoutingMatrix from './AudioRoutingMatrix';
+import InsightChat from './InsightChat';
+import PaintingGallery from './PaintingGallery';
+import { useI18n } from './I18nProvider';
 
 interface ControlsProps {
   paintings: Painting[];
+  collections: PaintingCollection[];
   selectedPainting: Painting;
   onSelectPainting: (p: Painting) => void;
   onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onUpdateUpload: (id: string, fields: Partial<UploadFields>) => void;
+  onDeleteUpload: (painting: Painting) => void;
   config: ParticleConfig;
   onConfigChange: (c: ParticleConfig) => void;
   aiData: AIResponse | null;
   isLoadingAI: boolean;
-  hasGeminiApiKey: boolean;
+  onApplySuggestion: () => void;
+  onHighlight: (regions: HighlightRegion[]) => void;
+  chatHistories: Record<string, ChatMessage[]>;
+  onChatHistoriesChange: React.Dispatch<React.SetStateAction<Record<string, ChatMessage[]>>>;
+  insightConfigured: boolean;
+  insightProviderId: InsightProviderId;
+  onInsightProviderChange: (id: InsightProviderId) => void;
+  cacheStats: GeometryCacheStats | null;
+  onClearCache: () => void;
   children?: React.ReactNode; // Add support for children (AudioPlayer)
 }
 
 const Controls: React.FC<ControlsProps> = ({
   paintings,
+  collections,
   selectedPainting,
   onSelectPainting,
   onUpload,
+  onUpdateUpload,
+  onDeleteUpload,
   config,
   onConfigChange,
   aiData,
   isLoadingAI,
-  hasGeminiApiKey,
+  onApplySuggestion,
+  onHighlight,
+  chatHistories,
+  onChatHistoriesChange,
+  insightConfigured,
+  insightProviderId,
+  onInsightProviderChange,
+  cacheStats,
+  onClearCache,
   children
 }) => {
+  const { locale, setLocale, t } = useI18n();
   const [isInsightOpen, setIsInsightOpen] = useState(true);
   
   const updateConfig = (key: keyof ParticleConfig, value: number) => {
     onConfigChange({ ...config, [key]: value });
   };
 
+  const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
   return (
     <div className="absolute top-0 left-0 w-full h-full pointer-events-none flex flex-col justify-between p-6 z-10">
       {/* Header / Painting Selector */}
       <div className="pointer-events-auto bg-black/70 backdrop-blur-md p-4 rounded-xl border border-white/10 max-w-md animate-fade-in max-h-[80vh] overflow-y-auto">
-        <h1 className="mb-4">
-          <div className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">
-            ArtParticle 3D
-          </div>
-          <div className="text-sm text-gray-400 font-light tracking-widest uppercase mt-1">
-            名画粒子
+        <div className="flex items-start justify-between mb-4">
+          <h1>
+            <div className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">
+              ArtParticle 3D
+            </div>
+            <div className="text-sm text-gray-400 font-light tracking-widest uppercase mt-1">
+              {t('app.subtitle')}
+            </div>
+          </h1>
+          <div className="flex gap-1" title={t('app.language')}>
+            {LOCALES.map(l => (
+              <button
+                key={l.id}
+                onClick={() => setLocale(l.id)}
+                className={`px-2 py-0.5 text-[10px] rounded border transition-colors ${
+                  locale === l.id ? 'bg-white text-black border-white' : 'text-gray-400 border-gray-600 hover:border-white hover:text-white'
+                }`}
+              >
+                {l.label}
+              </button>
+            ))}
           </div>
-        </h1>
-        
-        <div className="flex flex-wrap gap-2 mb-4">
-          {paintings.map((p) => (
-            <button
-              key={p.id}
-              onClick={() => onSelectPainting(p)}
-              className={`px-3 py-1 text-xs rounded-full border transition-all duration-300 ${
-                selectedPainting.id === p.id
-                  ? 'bg-white text-black border-white font-bold'
-                  : 'bg-transparent text-gray-400 border-gray-600 hover:border-white hover:text-white'
-              }`}
-            >
-              {p.title}
-            </button>
-          ))}
-          <label className="cursor-pointer px-3 py-1 text-xs rounded-full border border-dashed border-gray-500 text-gray-400 hover:border-white hover:text-white transition-all flex items-center gap-1">
-             <span>+ Upload</span>
-             <input type="file" accept="image/*" className="hidden" onChange={onUpload} />
-          </label>
         </div>
+        
+        <PaintingGallery
+          paintings={paintings}
+          collections={collections}
+          selectedPainting={selectedPainting}
+          onSelectPainting={onSelectPainting}
+          onUpload={onUpload}
+          onUpdateUpload={onUpdateUpload}
+          onDeleteUpload={onDeleteUpload}
+        />
 
         {/* AI Insight Section */}
         <div className="mt-4 border-t border-white/10 pt-4">
@@ -72,7 +112,7 @@ const Controls: React.FC<ControlsProps> = ({
                 className="w-full flex items-center justify-between mb-2 group focus:outline-none"
             >
                 <div className="flex items-center gap-2">
-                    <h2 className="text-xs font-semibold uppercase tracking-widest text-purple-400 group-hover:text-purple-300 transition-colors">Gemini Insight</h2>
+                    <h2 className="text-xs font-semibold uppercase tracking-widest text-purple-400 group-hover:text-purple-300 transition-colors">{t('insight.title')}</h2>
                     <svg 
                         xmlns="http://www.w3.org/2000/svg" 
                         className={`h-3 w-3 text-purple-400 transition-transform duration-300 ${isInsightOpen ? 'rotate-180' : ''}`} 
@@ -86,40 +126,82 @@ const Controls: React.FC<ControlsProps> = ({
                 {isLoadingAI && <div className="w-3 h-3 rounded-full border-2 border-t-purple-500 animate-spin"></div>}
             </button>
 
-            <div className={`overflow-hidden transition-all duration-500 ease-in-out ${isInsightOpen ? 'max-h-96 opacity-100' : 'max-h-0 opacity-0'}`}>
-                {!hasGeminiApiKey ? (
+            <div className={`overflow-hidden transition-all duration-500 ease-in-out ${isInsightOpen ? 'max-h-[36rem] opacity-100' : 'max-h-0 opacity-0'}`}>
+                <select
+                    value={insightProviderId}
+                    onChange={(e) => onInsightProviderChange(e.target.value as InsightProviderId)}
+                    className="mb-2 w-full bg-black/40 border border-white/10 rounded text-[10px] text-gray-400 px-1 py-0.5 focus:outline-none"
+                    title={t('insight.provider')}
+                >
+                    {INSIGHT_PROVIDERS.map(p => (
+                        <option key={p.id} value={p.id}>{p.label} ({p.model})</option>
+                    ))}
+                </select>
+                {!insightConfigured ? (
                     <div className="text-xs text-amber-300 bg-amber-500/10 border border-amber-400/30 px-3 py-2 rounded">
-                        未配置 API Key。请在环境变量中设置 GEMINI_API_KEY 以启用 Gemini 分析。
+                        {t('insight.missingKey')}
                     </div>
-                ) : aiData ? (
+                ) : (
                     <div>
-                        <p className="text-sm text-gray-200 leading-relaxed mb-2">{aiData.analysis}</p>
-                        <div className="inline-block bg-purple-900/50 border border-purple-500/30 text-purple-200 text-xs px-2 py-1 rounded">
-                            Mood: {aiData.mood}
-                        </div>
+                        {aiData ? (
+                            <>
+                                <p className="text-sm text-gray-200 leading-relaxed mb-2">{aiData.analysis}</p>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <div className="inline-block bg-purple-900/50 border border-purple-500/30 text-purple-200 text-xs px-2 py-1 rounded">
+                                        {t('insight.mood', { mood: aiData.mood })}
+                                    </div>
+                                    {(aiData.suggestedConfig || aiData.suggestedMusic?.trackId) && (
+                                        <button
+                                            onClick={onApplySuggestion}
+                                            className="text-xs px-2 py-1 rounded border border-purple-400/50 text-purple-200 hover:bg-purple-500/20 hover:text-white transition-colors"
+                                            title={t('insight.applyHint')}
+                                        >
+                                            {t('insight.apply')}
+                                        </button>
+                                    )}
+                                </div>
+                                {aiData.suggestedMusic && (
+                                    <p className="text-[10px] text-gray-400 mt-2">♪ {aiData.suggestedMusic.mood}</p>
+                                )}
+                            </>
+                        ) : (
+                            <p className="text-xs text-gray-500 italic">{t('insight.analyzing')}</p>
+                        )}
+                        {/* Stays mounted while a new analysis loads */}
+                        <InsightChat
+                            painting={selectedPainting}
+                            histories={chatHistories}
+                            onHistoriesChange={onChatHistoriesChange}
+                            onHighlight={onHighlight}
+                        />
                     </div>
-                ) : (
-                    <p className="text-xs text-gray-500 italic">Analyzing masterpiece...</p>
                 )}
             </div>
         </div>
       </div>
 
       {/* Visual Controls */}
-      <div className="pointer-events-auto self-end bg-black/70 backdrop-blur-md p-5 rounded-xl border border-white/10 w-64 space-y-5">
-        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Visualization</h3>
+      <div className="pointer-events-auto self-end bg-black/70 backdrop-blur-md p-5 rounded-xl border border-white/10 w-64 space-y-5 max-h-[85vh] overflow-y-auto">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">{t('controls.visualization')}</h3>
+
+        {/* Presets */}
+        <PresetManager
+          config={config}
+          onConfigChange={onConfigChange}
+          selectedPainting={selectedPainting}
+        />
         
         {/* Brightness Slider */}
         <div className="space-y-1">
           <div className="flex justify-between text-xs text-gray-400">
-            <label>Brightness</label>
+            <label>{t('controls.brightness')}</label>
             <span>{config.brightness.toFixed(1)}</span>
           </div>
           <input
             type="range"
-            min="0"
-            max="3"
-            step="0.1"
+            min={CONFIG_RANGES.brightness.min}
+            max={CONFIG_RANGES.brightness.max}
+            step={CONFIG_RANGES.brightness.step}
             value={config.brightness}
             onChange={(e) => updateConfig('brightness', parseFloat(e.target.value))}
             className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-yellow-400"
@@ -129,49 +211,58 @@ const Controls: React.FC<ControlsProps> = ({
         {/* 3D Depth Slider */}
         <div className="space-y-1">
           <div className="flex justify-between text-xs text-gray-400">
-            <label>3D Depth</label>
+            <label>{t('controls.depth')}</label>
             <span>{config.depth.toFixed(1)}</span>
           </div>
           <input
             type="range"
-            min="0"
-            max="50"
-            step="0.5"
+            min={CONFIG_RANGES.depth.min}
+            max={CONFIG_RANGES.depth.max}
+            step={CONFIG_RANGES.depth.step}
             value={config.depth}
             onChange={(e) => updateConfig('depth', parseFloat(e.target.value))}
             className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
           />
         </div>
 
-        {/* Particle Density Slider */}
+        {/* Semantic Depth Toggle */}
+        <label className="flex items-center justify-between text-xs text-gray-400 cursor-pointer">
+          <span>{t('controls.semanticDepth')}</span>
+          <input
+            type="checkbox"
+            checked={Boolean(config.useSemanticDepth)}
+            onChange={(e) => onConfigChange({ ...config, useSemanticDepth: e.target.checked })}
+            className="accent-blue-500 cursor-pointer"
+          />
+        </label>
         <div className="space-y-1">
           <div className="flex justify-between text-xs text-gray-400">
-            <label>Point Density</label>
+            <label>{t('controls.density')}</label>
             <span>{config.density.toFixed(1)}</span>
           </div>
           <input
             type="range"
-            min="1"
-            max="6"
-            step="0.5"
+            min={CONFIG_RANGES.density.min}
+            max={CONFIG_RANGES.density.max}
+            step={CONFIG_RANGES.density.step}
             value={config.density}
             onChange={(e) => updateConfig('density', parseFloat(e.target.value))}
             className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-500"
           />
-          <p className="text-[10px] text-gray-500">Higher density may reduce performance</p>
+          <p className="text-[10px] text-gray-500">{t('controls.densityHint')}</p>
         </div>
 
         {/* Particle Size Slider */}
         <div className="space-y-1">
           <div className="flex justify-between text-xs text-gray-400">
-            <label>Particle Size</label>
+            <label>{t('controls.size')}</label>
             <span>{config.size.toFixed(1)}</span>
           </div>
           <input
             type="range"
-            min="0.1"
-            max="2.0"
-            step="0.1"
+            min={CONFIG_RANGES.size.min}
+            max={CONFIG_RANGES.size.max}
+            step={CONFIG_RANGES.size.step}
             value={config.size}
             onChange={(e) => updateConfig('size', parseFloat(e.target.value))}
             className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
@@ -181,25 +272,94 @@ const Controls: React.FC<ControlsProps> = ({
         {/* Dispersion Slider */}
         <div className="space-y-1">
           <div className="flex justify-between text-xs text-gray-400">
-            <label>Dispersion</label>
+            <label>{t('controls.dispersion')}</label>
             <span>{config.dispersion.toFixed(1)}</span>
           </div>
           <input
             type="range"
-            min="0"
-            max="20"
-            step="0.1"
+            min={CONFIG_RANGES.dispersion.min}
+            max={CONFIG_RANGES.dispersion.max}
+            step={CONFIG_RANGES.dispersion.step}
             value={config.dispersion}
             onChange={(e) => updateConfig('dispersion', parseFloat(e.target.value))}
             className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
           />
         </div>
         
+        {/* Morph Transition */}
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-400">
+            <label>{t('controls.morphDuration')}</label>
+            <span>{(config.morphDuration ?? 0).toFixed(1)}s</span>
+          </div>
+          <input
+            type="range"
+            min={CONFIG_RANGES.morphDuration.min}
+            max={CONFIG_RANGES.morphDuration.max}
+            step={CONFIG_RANGES.morphDuration.step}
+            value={config.morphDuration ?? 0}
+            onChange={(e) => updateConfig('morphDuration', parseFloat(e.target.value))}
+            className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+          />
+          <select
+            value={config.morphEasing ?? 'easeInOutCubic'}
+            onChange={(e) => onConfigChange({ ...config, morphEasing: e.target.value as MorphEasing })}
+            className="w-full bg-black/40 border border-white/10 rounded text-xs text-gray-300 px-2 py-1 focus:outline-none"
+          >
+            {MORPH_EASINGS.map(easing => (
+              <option key={easing} value={easing}>{t(EASING_LABELS[easing])}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Audio Modulation Matrix */}
+        <AudioRoutingMatrix
+          routes={config.audioRoutes}
+          onChange={(audioRoutes) => onConfigChange({ ...config, audioRoutes })}
+        />
+
+        {/* Geometry Cache */}
+        {cacheStats && (
+          <div className="space-y-1">
+            <div className="flex justify-between items-center text-xs text-gray-400">
+              <label>{t('cache.title')}</label>
+              <button
+                onClick={onClearCache}
+                className="px-2 py-0.5 text-[10px] rounded border border-gray-600 hover:border-white hover:text-white transition-colors"
+              >
+                {t('cache.clear')}
+              </button>
+            </div>
+            <p className="text-[10px] text-gray-500">
+              {t('cache.memory', {
+                used: formatMB(cacheStats.memory.bytes),
+                budget: formatMB(cacheStats.memory.budget),
+                entries: cacheStats.memory.entries
+              })}
+              {' • '}
+              {cacheStats.disk.available
+                ? t('cache.disk', {
+                    used: formatMB(cacheStats.disk.bytes),
+                    budget: formatMB(cacheStats.disk.budget),
+                    entries: cacheStats.disk.entries
+                  })
+                : t('cache.diskUnavailable')}
+            </p>
+            <p className="text-[10px] text-gray-500">
+              {t('cache.stats', {
+                hits: cacheStats.hits.memory + cacheStats.hits.disk,
+                misses: cacheStats.misses,
+                evicted: cacheStats.evictions.memory + cacheStats.evictions.disk
+              })}
+            </p>
+          </div>
+        )}
+
         {/* Render Audio Player if provided */}
         {children}
 
         <div className="text-xs text-gray-500 pt-2 border-t border-white/10 text-center">
-           Drag to Rotate • Scroll to Zoom
+           {t('controls.hint')}
         </div>
       </div>
     </div>
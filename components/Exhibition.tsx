@@ -0,0 +1,125 @@
+import React, { useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { AudioData, BrushSettings, ExhibitionOverride, ExhibitionPlacement, HighlightRegion, Painting, ParticleConfig } from '../types';
+import { applyOverride, lodDensity, lodLevelFor } from '../services/exhibition';
+import ParticleSystem from './ParticleSystem';
+
+interface ExhibitionProps {
+  placements: ExhibitionPlacement[];
+  config: ParticleConfig;
+  liveConfigRef: React.MutableRefObject<ParticleConfig | null>; // Tour playback (see ParticleSystem)
+  overrides: Record<string, ExhibitionOverride>;
+  selectedId: string;
+  highlights: HighlightRegion[];
+  brush: BrushSettings;
+  audioDataRef: React.MutableRefObject<AudioData>;
+  onSelect: (painting: Painting) => void;
+}
+
+interface ExhibitionCloudProps {
+  placement: ExhibitionPlacement;
+  config: ParticleConfig; // Overrides already applied
+  liveConfigRef: React.MutableRefObject<ParticleConfig | null>;
+  override?: ExhibitionOverride;
+  highlights?: HighlightRegion[];
+  brush: BrushSettings;
+  audioDataRef: React.MutableRefObject<AudioData>;
+  onSelect: (painting: Painting) => void;
+}
+
+// Pointer travel (px) between press and release beyond which a click counts as an orbit drag
+const CLICK_TOLERANCE_PX = 4;
+
+// One painting of the exhibition; resamples at a lower density as the camera moves away
+const ExhibitionCloud: React.FC<ExhibitionCloudProps> = ({
+  placement,
+  config,
+  liveConfigRef,
+  override,
+  highlights,
+  brush,
+  audioDataRef,
+  onSelect
+}) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const lodRef = useRef(0);
+  const [lod, setLod] = useState(0);
+  const worldPosition = useMemo(() => new THREE.Vector3(), []);
+  // Blended tour settings, with this painting's overrides still on top
+  const cloudLiveRef = useRef<ParticleConfig | null>(null);
+
+  useFrame(({ camera }) => {
+    const live = liveConfigRef.current;
+    cloudLiveRef.current = live && applyOverride(live, override);
+
+    if (!groupRef.current) return;
+    groupRef.current.getWorldPosition(worldPosition);
+    const level = lodLevelFor(camera.position.distanceTo(worldPosition), lodRef.current);
+    if (level !== lodRef.current) {
+      lodRef.current = level;
+      setLod(level);
+    }
+  });
+
+  const cloudConfig = useMemo(
+    () => ({ ...config, density: lodDensity(config.density, lod) }),
+    [config, lod]
+  );
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > CLICK_TOLERANCE_PX) return;
+    e.stopPropagation(); // Only the nearest cloud under the pointer
+    onSelect(placement.painting);
+  };
+
+  return (
+    <group
+      ref={groupRef}
+      position={placement.position}
+      rotation={[0, placement.rotationY, 0]}
+      onClick={handleClick}
+    >
+      <ParticleSystem
+        imageUrl={placement.painting.url}
+        config={cloudConfig}
+        liveConfigRef={cloudLiveRef}
+        audioDataRef={audioDataRef}
+        highlights={highlights}
+        brush={brush}
+      />
+    </group>
+  );
+};
+
+// Several paintings as separate clouds (see services/exhibition.ts for the layouts)
+const Exhibition: React.FC<ExhibitionProps> = ({
+  placements,
+  config,
+  liveConfigRef,
+  overrides,
+  selectedId,
+  highlights,
+  brush,
+  audioDataRef,
+  onSelect
+}) => (
+  <>
+    {placements.map(placement => (
+      <ExhibitionCloud
+        key={placement.painting.id}
+        placement={placement}
+        config={applyOverride(config, overrides[placement.painting.id])}
+        liveConfigRef={liveConfigRef}
+        override={overrides[placement.painting.id]}
+        // Chat highlights belong to the selected painting
+        highlights={placement.painting.id === selectedId ? highlights : undefined}
+        brush={brush}
+        audioDataRef={audioDataRef}
+        onSelect={onSelect}
+      />
+    ))}
+  </>
+);
+
+export default Exhibition;
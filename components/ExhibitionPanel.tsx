@@ -0,0 +1,135 @@
+import React from 'react';
+import { ExhibitionLayout, ExhibitionOverride, ExhibitionSettings, Painting, ParticleConfig } from '../types';
+import { CONFIG_RANGES } from '../services/configSchema';
+import { EXHIBITION_LAYOUTS, MAX_EXHIBITION_CLOUDS, OVERRIDE_KEYS } from '../services/exhibition';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface ExhibitionPanelProps {
+  settings: ExhibitionSettings;
+  onChange: (settings: ExhibitionSettings) => void;
+  selectedPainting: Painting;
+  config: ParticleConfig;
+  paintingCount: number; // Paintings not hidden from the exhibition
+}
+
+const LAYOUT_LABELS: Record<ExhibitionLayout, MessageKey> = {
+  wall: 'exhibition.wall',
+  ring: 'exhibition.ring',
+  grid: 'exhibition.grid'
+};
+
+const OVERRIDE_LABELS: Record<keyof ExhibitionOverride, MessageKey> = {
+  brightness: 'controls.brightness',
+  depth: 'controls.depth',
+  density: 'controls.density',
+  size: 'controls.size',
+  dispersion: 'controls.dispersion'
+};
+
+const ExhibitionPanel: React.FC<ExhibitionPanelProps> = ({
+  settings,
+  onChange,
+  selectedPainting,
+  config,
+  paintingCount
+}) => {
+  const { t } = useI18n();
+  const { id } = selectedPainting;
+  const override = settings.overrides[id] ?? {};
+  const isShown = !settings.hidden.includes(id);
+
+  const setOverride = (next: ExhibitionOverride) => {
+    const { [id]: _previous, ...others } = settings.overrides;
+    onChange({ ...settings, overrides: Object.keys(next).length > 0 ? { ...others, [id]: next } : others });
+  };
+
+  const toggleShown = (shown: boolean) => {
+    const hidden = settings.hidden.filter(hiddenId => hiddenId !== id);
+    onChange({ ...settings, hidden: shown ? hidden : [...hidden, id] });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-white/10 space-y-2">
+      <label className="flex items-center justify-between cursor-pointer">
+        <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wider">{t('exhibition.title')}</h3>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          className="accent-blue-500 cursor-pointer"
+        />
+      </label>
+
+      {settings.enabled && (
+        <>
+          <div className="flex gap-1">
+            {EXHIBITION_LAYOUTS.map(layout => (
+              <button
+                key={layout}
+                onClick={() => onChange({ ...settings, layout })}
+                className={`flex-1 px-2 py-0.5 text-[10px] rounded border transition-colors ${
+                  settings.layout === layout ? 'bg-white text-black border-white' : 'text-gray-400 border-gray-600 hover:border-white hover:text-white'
+                }`}
+              >
+                {t(LAYOUT_LABELS[layout])}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-500">
+            {t('exhibition.hint')}
+            {paintingCount > MAX_EXHIBITION_CLOUDS && ` ${t('exhibition.limit', { max: MAX_EXHIBITION_CLOUDS })}`}
+          </p>
+
+          <label className="flex items-center justify-between text-xs text-gray-400 cursor-pointer">
+            <span className="truncate">{t('exhibition.show', { title: selectedPainting.title })}</span>
+            <input
+              type="checkbox"
+              checked={isShown}
+              onChange={(e) => toggleShown(e.target.checked)}
+              className="accent-blue-500 cursor-pointer"
+            />
+          </label>
+
+          {isShown && (
+            <div className="space-y-2">
+              <div className="flex justify-between items-center text-xs text-gray-400">
+                <span>{t('exhibition.overrides')}</span>
+                {Object.keys(override).length > 0 && (
+                  <button
+                    onClick={() => setOverride({})}
+                    className="px-2 py-0.5 text-[10px] rounded border border-gray-600 hover:border-white hover:text-white transition-colors"
+                  >
+                    {t('exhibition.reset')}
+                  </button>
+                )}
+              </div>
+              {OVERRIDE_KEYS.map((key) => {
+                const value = override[key] ?? config[key];
+                return (
+                  <div key={key} className="space-y-1">
+                    <div className={`flex justify-between text-[10px] ${override[key] !== undefined ? 'text-white' : 'text-gray-500'}`}>
+                      <label>{t(OVERRIDE_LABELS[key])}</label>
+                      <span>{value.toFixed(1)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={CONFIG_RANGES[key].min}
+                      max={CONFIG_RANGES[key].max}
+                      step={CONFIG_RANGES[key].step}
+                      value={value}
+                      onChange={(e) => setOverride({ ...override, [key]: parseFloat(e.target.value) })}
+                      className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExhibitionPanel;
@@ -0,0 +1,289 @@
+import React, { useRef, useState } from 'react';
+import type { RootState } from '@react-three/fiber';
+import { AudioData, CameraApi, Painting, ParticleConfig } from '../types';
+import { exportStillPng, MAX_STILL_DIMENSION, STILL_SIZES } from '../services/imageExport';
+import {
+  isRecordingSupported,
+  MAX_RECORDING_SECONDS,
+  RECORDING_FPS,
+  recordVideo,
+  Frameloop,
+  RecordingMode
+} from '../services/videoRecorder';
+import { isAbortError } from '../services/particleLoader';
+import { getGeometry } from '../services/geometryCache';
+import { evaluatePointCloud, REST_POSE } from '../services/pointCloudEvaluator';
+import { POINT_CLOUD_FORMATS, PointCloudFormat, serializePointCloud } from '../services/pointCloudExport';
+import { downloadBlob, slugify } from '../services/download';
+import { useI18n } from './I18nProvider';
+
+interface ExportPanelProps {
+  sceneStateRef: React.MutableRefObject<RootState | null>;
+  cameraApiRef: React.MutableRefObject<CameraApi | null>;
+  audioStreamRef: React.MutableRefObject<MediaStream | null>;
+  audioDataRef: React.MutableRefObject<AudioData>;
+  painting: Painting;
+  config: ParticleConfig;
+  onFrameloopChange: (frameloop: Frameloop) => void;
+}
+
+const CUSTOM_SIZE = 'custom';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({
+  sceneStateRef,
+  cameraApiRef,
+  audioStreamRef,
+  audioDataRef,
+  painting,
+  config,
+  onFrameloopChange
+}) => {
+  const { locale, t } = useI18n();
+  const [sizeKey, setSizeKey] = useState(STILL_SIZES[1].label);
+  const [customWidth, setCustomWidth] = useState(6000);
+  const [customHeight, setCustomHeight] = useState(4000);
+  const [transparent, setTransparent] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // Video recording
+  const [recordMode, setRecordMode] = useState<RecordingMode>('realtime');
+  const [fps, setFps] = useState(30);
+  const [duration, setDuration] = useState(10);
+  const [orbit, setOrbit] = useState(false);
+  const [recordProgress, setRecordProgress] = useState<number | null>(null);
+  const recordAbortRef = useRef<AbortController | null>(null);
+
+  // Point cloud export
+  const [cloudFormat, setCloudFormat] = useState<PointCloudFormat>('ply-binary');
+  const [snapshotAnimation, setSnapshotAnimation] = useState(false);
+
+  const preset = STILL_SIZES.find(s => s.label === sizeKey);
+  const width = preset?.width ?? customWidth;
+  const height = preset?.height ?? customHeight;
+
+  const handleExportImage = async () => {
+    const state = sceneStateRef.current;
+    if (!state) return;
+
+    setIsExporting(true);
+    setStatus(null);
+    try {
+      const png = await exportStillPng(state, { width, height, transparent }, painting, config);
+      downloadBlob(png, `${slugify(painting.title)}-${width}x${height}.png`);
+      setStatus({ text: t('export.savedImage', { width, height }), isError: false });
+    } catch (err) {
+      console.error("Still export failed", err);
+      setStatus({ text: err instanceof Error ? err.message : String(err), isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRecord = async () => {
+    const state = sceneStateRef.current;
+    if (!state) return;
+
+    if (recordAbortRef.current) {
+      recordAbortRef.current.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    recordAbortRef.current = controller;
+    setRecordProgress(0);
+    setStatus(null);
+
+    try {
+      const video = await recordVideo(
+        { state, cameraApi: cameraApiRef.current, audioStream: audioStreamRef.current, setFrameloop: onFrameloopChange },
+        { mode: recordMode, fps, duration, orbit, orbitTurns: 1 },
+        { signal: controller.signal, onProgress: setRecordProgress }
+      );
+      downloadBlob(video, `${slugify(painting.title)}-${duration}s-${fps}fps.webm`);
+      setStatus({ text: t('export.savedVideo', { seconds: duration }), isError: false });
+    } catch (err) {
+      if (isAbortError(err)) {
+        setStatus({ text: t('export.cancelled'), isError: false });
+      } else {
+        console.error("Video recording failed", err);
+        setStatus({ text: err instanceof Error ? err.message : String(err), isError: true });
+      }
+    } finally {
+      recordAbortRef.current = null;
+      setRecordProgress(null);
+    }
+  };
+
+  const handleExportPointCloud = async () => {
+    setStatus(null);
+    try {
+      // Served from the geometry cache for the painting on screen
+      const geometry = await getGeometry(painting.url, config.density, Boolean(config.useSemanticDepth));
+      const input = snapshotAnimation
+        ? { time: sceneStateRef.current?.clock.elapsedTime ?? 0, audio: { ...audioDataRef.current } }
+        : REST_POSE;
+      const cloud = evaluatePointCloud(geometry, config, input);
+      const format = POINT_CLOUD_FORMATS.find(f => f.id === cloudFormat)!;
+
+      downloadBlob(serializePointCloud(cloud, cloudFormat), `${slugify(painting.title)}.${format.extension}`);
+      setStatus({ text: t('export.savedPointCloud', { count: cloud.count.toLocaleString(locale), format: t(format.label) }), isError: false });
+    } catch (err) {
+      console.error("Point cloud export failed", err);
+      setStatus({ text: err instanceof Error ? err.message : String(err), isError: true });
+    }
+  };
+
+  const isRecording = recordProgress !== null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-white/10 space-y-2">
+      <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wider">{t('export.title')}</h3>
+
+      <select
+        value={sizeKey}
+        onChange={(e) => setSizeKey(e.target.value)}
+        className="w-full bg-black/40 border border-white/10 rounded text-xs text-gray-300 px-2 py-1 focus:outline-none"
+      >
+        {STILL_SIZES.map(s => <option key={s.label} value={s.label}>{s.label}</option>)}
+        <option value={CUSTOM_SIZE}>{t('export.customSize')}</option>
+      </select>
+
+      {!preset && (
+        <div className="flex items-center gap-1 text-xs text-gray-400">
+          <input
+            type="number"
+            min={1}
+            max={MAX_STILL_DIMENSION}
+            value={customWidth}
+            onChange={(e) => setCustomWidth(parseInt(e.target.value, 10) || 0)}
+            className="w-20 bg-black/40 border border-white/10 rounded px-2 py-1 focus:outline-none"
+          />
+          <span>×</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_STILL_DIMENSION}
+            value={customHeight}
+            onChange={(e) => setCustomHeight(parseInt(e.target.value, 10) || 0)}
+            className="w-20 bg-black/40 border border-white/10 rounded px-2 py-1 focus:outline-none"
+          />
+        </div>
+      )}
+
+      <label className="flex items-center justify-between text-xs text-gray-400 cursor-pointer">
+        <span>{t('export.transparent')}</span>
+        <input
+          type="checkbox"
+          checked={transparent}
+          onChange={(e) => setTransparent(e.target.checked)}
+          className="accent-blue-500 cursor-pointer"
+        />
+      </label>
+
+      <button
+        onClick={handleExportImage}
+        disabled={isExporting}
+        className="w-full px-2 py-1 text-xs rounded border border-gray-600 text-gray-300 hover:border-white hover:text-white transition-colors disabled:opacity-40"
+      >
+        {isExporting ? t('export.rendering') : t('export.image')}
+      </button>
+
+      {isRecordingSupported() && (
+        <div className="space-y-2 pt-2">
+          <div className="flex gap-1">
+            <select
+              value={recordMode}
+              onChange={(e) => setRecordMode(e.target.value as RecordingMode)}
+              disabled={isRecording}
+              className="flex-1 bg-black/40 border border-white/10 rounded text-xs text-gray-300 px-2 py-1 focus:outline-none"
+            >
+              <option value="realtime">{t('export.realtime')}</option>
+              <option value="offline">{t('export.offline')}</option>
+            </select>
+            <select
+              value={fps}
+              onChange={(e) => setFps(parseInt(e.target.value, 10))}
+              disabled={isRecording}
+              className="bg-black/40 border border-white/10 rounded text-xs text-gray-300 px-2 py-1 focus:outline-none"
+            >
+              {RECORDING_FPS.map(f => <option key={f} value={f}>{t('export.fps', { fps: f })}</option>)}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <label>{t('export.duration')}</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_RECORDING_SECONDS}
+              value={duration}
+              disabled={isRecording}
+              onChange={(e) => setDuration(parseInt(e.target.value, 10) || 0)}
+              className="w-16 bg-black/40 border border-white/10 rounded px-2 py-1 focus:outline-none"
+            />
+          </div>
+
+          <label className="flex items-center justify-between text-xs text-gray-400 cursor-pointer">
+            <span>{t('export.orbit')}</span>
+            <input
+              type="checkbox"
+              checked={orbit}
+              disabled={isRecording}
+              onChange={(e) => setOrbit(e.target.checked)}
+              className="accent-blue-500 cursor-pointer"
+            />
+          </label>
+
+          {recordMode === 'offline' && (
+            <p className="text-[10px] text-gray-500">{t('export.offlineHint')}</p>
+          )}
+
+          <button
+            onClick={handleRecord}
+            className={`w-full px-2 py-1 text-xs rounded border transition-colors ${
+              isRecording
+                ? 'border-red-500 text-red-300 hover:bg-red-500/20'
+                : 'border-gray-600 text-gray-300 hover:border-white hover:text-white'
+            }`}
+          >
+            {isRecording ? t('export.stop', { percent: Math.round((recordProgress ?? 0) * 100) }) : t('export.record')}
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2">
+        <select
+          value={cloudFormat}
+          onChange={(e) => setCloudFormat(e.target.value as PointCloudFormat)}
+          className="w-full bg-black/40 border border-white/10 rounded text-xs text-gray-300 px-2 py-1 focus:outline-none"
+        >
+          {POINT_CLOUD_FORMATS.map(f => <option key={f.id} value={f.id}>{t(f.label)}</option>)}
+        </select>
+
+        <label className="flex items-center justify-between text-xs text-gray-400 cursor-pointer">
+          <span>{t('export.snapshot')}</span>
+          <input
+            type="checkbox"
+            checked={snapshotAnimation}
+            onChange={(e) => setSnapshotAnimation(e.target.checked)}
+            className="accent-blue-500 cursor-pointer"
+          />
+        </label>
+
+        <button
+          onClick={handleExportPointCloud}
+          className="w-full px-2 py-1 text-xs rounded border border-gray-600 text-gray-300 hover:border-white hover:text-white transition-colors"
+        >
+          {t('export.pointCloud')}
+        </button>
+      </div>
+
+      {status && (
+        <p className={`text-[10px] ${status.isError ? 'text-red-400' : 'text-gray-500'}`}>{status.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
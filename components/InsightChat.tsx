@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, HighlightRegion, Painting } from '../types';
+import { askAboutPainting } from '../services/insightService';
+import { isAbortError } from '../services/particleLoader';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface InsightChatProps {
+  painting: Painting;
+  // Conversations by painting id; owned by App so they survive re-analysis and painting switches
+  histories: Record<string, ChatMessage[]>;
+  onHistoriesChange: React.Dispatch<React.SetStateAction<Record<string, ChatMessage[]>>>;
+  onHighlight: (regions: HighlightRegion[]) => void;
+}
+
+const STARTER_QUESTIONS: MessageKey[] = ['chat.starterLook', 'chat.starterTechnique', 'chat.starterStory'];
+
+// Multi-turn "ask about this painting" chat. History is kept per painting for the
+// session; answers stream in and can highlight regions of the particle cloud.
+const InsightChat: React.FC<InsightChatProps> = ({ painting, histories, onHistoriesChange: setHistories, onHighlight }) => {
+  const { locale, t } = useI18n();
+  const [input, setInput] = useState('');
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const history = histories[painting.id] ?? [];
+  const isStreaming = streamingText !== null;
+  const lastAnswer = [...history].reverse().find(m => m.role === 'model');
+  const suggestions = history.length === 0 ? STARTER_QUESTIONS.map(key => t(key)) : lastAnswer?.followUps ?? [];
+
+  // A painting switch cancels the pending answer
+  useEffect(() => {
+    setError(null);
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      setStreamingText(null);
+    };
+  }, [painting.id]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [history.length, streamingText]);
+
+  const ask = async (question: string) => {
+    const text = question.trim();
+    if (!text || isStreaming) return;
+
+    const paintingId = painting.id;
+    const previous = history;
+    const append = (message: ChatMessage) =>
+      setHistories(prev => ({ ...prev, [paintingId]: [...(prev[paintingId] ?? []), message] }));
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setInput('');
+    setError(null);
+    setStreamingText('');
+    append({ role: 'user', text });
+
+    try {
+      const answer = await askAboutPainting(painting, previous, text, {
+        signal: controller.signal,
+        locale,
+        onText: setStreamingText
+      });
+      append(answer);
+      onHighlight(answer.regions ?? []);
+    } catch (e) {
+      // Drop the unanswered question so the conversation stays well-formed
+      setHistories(prev => ({ ...prev, [paintingId]: previous }));
+      if (controller.signal.aborted || isAbortError(e)) return;
+      console.error("Insight chat failed", e);
+      setInput(text);
+      setError(e instanceof Error ? e.message : t('chat.failed'));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setStreamingText(null);
+      }
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(input);
+  };
+
+  const clearChat = () => {
+    setHistories(prev => ({ ...prev, [painting.id]: [] }));
+    onHighlight([]);
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-white/10 space-y-2">
+      {history.length > 0 && (
+        <div ref={scrollRef} className="max-h-56 overflow-y-auto space-y-2 pr-1">
+          {history.map((message, index) => (
+            <div key={index} className={message.role === 'user' ? 'text-right' : ''}>
+              <div
+                className={`inline-block text-left text-xs leading-relaxed px-2 py-1.5 rounded ${
+                  message.role === 'user' ? 'bg-blue-600/30 text-blue-100' : 'bg-white/5 text-gray-200'
+                }`}
+              >
+                {message.text}
+              </div>
+              {message.regions && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {message.regions.map((region, i) => (
+                    <button
+                      key={i}
+                      onClick={() => onHighlight([region])}
+                      className="text-[10px] px-1.5 py-0.5 rounded border border-amber-400/40 text-amber-200 hover:bg-amber-500/20"
+                      title={t('chat.highlight')}
+                    >
+                      ◎ {region.label || t('chat.region', { n: i + 1 })}
+                    </button>
+                  ))}
+                  {message.regions.length > 1 && (
+                    <button
+                      onClick={() => onHighlight(message.regions ?? [])}
+                      className="text-[10px] px-1.5 py-0.5 rounded border border-amber-400/40 text-amber-200 hover:bg-amber-500/20"
+                    >
+                      {t('chat.all')}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+          {isStreaming && (
+            <div className="inline-block text-xs leading-relaxed px-2 py-1.5 rounded bg-white/5 text-gray-200">
+              {streamingText || <span className="text-gray-500 italic">{t('chat.thinking')}</span>}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+      {!isStreaming && suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map(question => (
+            <button
+              key={question}
+              onClick={() => ask(question)}
+              className="text-[10px] px-2 py-1 rounded-full border border-purple-500/30 text-purple-200 hover:bg-purple-500/20 transition-colors"
+            >
+              {question}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-1">
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={t('chat.placeholder')}
+          disabled={isStreaming}
+          className="flex-1 bg-black/40 border border-white/10 rounded text-xs text-gray-200 px-2 py-1 focus:outline-none focus:border-purple-500/50 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={isStreaming || !input.trim()}
+          className="px-2 py-1 text-xs rounded bg-purple-600/60 text-white hover:bg-purple-500/70 disabled:opacity-40 transition-colors"
+        >
+          {t('chat.ask')}
+        </button>
+        {history.length > 0 && (
+          <button
+            type="button"
+            onClick={clearChat}
+            disabled={isStreaming}
+            className="px-2 py-1 text-xs rounded border border-gray-600 text-gray-400 hover:text-white disabled:opacity-40"
+            title={t('chat.clear')}
+          >
+            ↺
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default InsightChat;
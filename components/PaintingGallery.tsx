@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { Painting, PaintingCollection } from '../types';
+import { isUserUpload, UploadFields } from '../services/uploadLibrary';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface PaintingGalleryProps {
+  paintings: Painting[];
+  collections: PaintingCollection[];
+  selectedPainting: Painting;
+  onSelectPainting: (p: Painting) => void;
+  onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onUpdateUpload: (id: string, fields: Partial<UploadFields>) => void;
+  onDeleteUpload: (painting: Painting) => void;
+}
+
+// Collection filter values besides collection ids
+const ALL = 'all';
+const MY_IMAGES = 'mine';
+
+const UPLOAD_FIELDS: { key: keyof UploadFields; label: MessageKey }[] = [
+  { key: 'title', label: 'upload.title' },
+  { key: 'artist', label: 'upload.artist' },
+  { key: 'year', label: 'upload.year' }
+];
+
+const matchesQuery = (painting: Painting, query: string) =>
+  [painting.title, painting.artist, painting.year, painting.museum, painting.medium, ...(painting.tags ?? [])]
+    .some(field => field?.toLowerCase().includes(query));
+
+// Editable title/artist/year of an upload; edits are saved when a field loses focus
+const UploadDetails: React.FC<{
+  painting: Painting;
+  onUpdate: (id: string, fields: Partial<UploadFields>) => void;
+  onDelete: (painting: Painting) => void;
+}> = ({ painting, onUpdate, onDelete }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<UploadFields>({ title: painting.title, artist: painting.artist, year: painting.year });
+
+  const commit = (key: keyof UploadFields) => {
+    const value = draft[key].trim();
+    // An upload always keeps a title
+    if (key === 'title' && !value) {
+      setDraft(prev => ({ ...prev, title: painting.title }));
+      return;
+    }
+    if (value !== painting[key]) onUpdate(painting.id, { [key]: value });
+  };
+
+  return (
+    <div className="space-y-1">
+      {UPLOAD_FIELDS.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-2 text-xs text-gray-400">
+          <span className="w-12 shrink-0">{t(label)}</span>
+          <input
+            value={draft[key]}
+            onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+            onBlur={() => commit(key)}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded px-2 py-0.5 text-gray-200 focus:outline-none focus:border-white/40"
+          />
+        </label>
+      ))}
+      <button
+        onClick={() => onDelete(painting)}
+        className="text-[10px] text-red-400 hover:text-red-300 transition-colors"
+      >
+        {t('upload.delete')}
+      </button>
+    </div>
+  );
+};
+
+// Searchable thumbnail grid over the catalog plus uploads and shared images
+const PaintingGallery: React.FC<PaintingGalleryProps> = ({
+  paintings,
+  collections,
+  selectedPainting,
+  onSelectPainting,
+  onUpload,
+  onUpdateUpload,
+  onDeleteUpload
+}) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [collectionFilter, setCollectionFilter] = useState(ALL);
+  const [tag, setTag] = useState<string | null>(null);
+
+  const inCollection = useMemo(() => paintings.filter(p =>
+    collectionFilter === ALL ||
+    (collectionFilter === MY_IMAGES ? !p.collection : p.collection === collectionFilter)
+  ), [paintings, collectionFilter]);
+
+  const tags = useMemo(
+    () => Array.from(new Set(inCollection.flatMap(p => p.tags ?? []))).sort(),
+    [inCollection]
+  );
+
+  const needle = query.trim().toLowerCase();
+  const visible = inCollection.filter(p =>
+    (!tag || p.tags?.includes(tag)) && (!needle || matchesQuery(p, needle))
+  );
+
+  const changeCollection = (id: string) => {
+    setCollectionFilter(id);
+    setTag(null);
+  };
+
+  const details = [selectedPainting.museum, selectedPainting.medium, selectedPainting.dimensions].filter(Boolean);
+  const credit = [selectedPainting.license, selectedPainting.attribution].filter(Boolean);
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('gallery.search')}
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:border-white/40"
+        />
+        <select
+          value={collectionFilter}
+          onChange={(e) => changeCollection(e.target.value)}
+          className="bg-white/5 border border-white/10 rounded px-1 py-1 text-xs text-gray-300 focus:outline-none"
+        >
+          <option value={ALL}>{t('gallery.allCollections')}</option>
+          {collections.map(c => (
+            <option key={c.id} value={c.id} title={c.description}>{c.title}</option>
+          ))}
+          <option value={MY_IMAGES}>{t('gallery.myImages')}</option>
+        </select>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map(name => (
+            <button
+              key={name}
+              onClick={() => setTag(tag === name ? null : name)}
+              className={`px-2 py-0.5 text-[10px] rounded-full border transition-colors ${
+                tag === name ? 'bg-white text-black border-white' : 'text-gray-400 border-gray-600 hover:border-white hover:text-white'
+              }`}
+            >
+              #{name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-2">
+        {visible.map((p) => (
+          <button
+            key={p.id}
+            onClick={() => onSelectPainting(p)}
+            title={[p.title, p.artist, p.year].filter(Boolean).join(' — ')}
+            className={`group text-left rounded-lg overflow-hidden border transition-all duration-300 ${
+              selectedPainting.id === p.id ? 'border-white ring-1 ring-white' : 'border-white/10 hover:border-white/50'
+            }`}
+          >
+            <img
+              src={p.thumbnailUrl ?? p.localUrl ?? p.url}
+              alt={p.title}
+              loading="lazy"
+              className="w-full aspect-square object-cover bg-white/5 opacity-80 group-hover:opacity-100 transition-opacity"
+            />
+            <div className="px-1 py-0.5 text-[10px] text-gray-300 truncate">{p.title}</div>
+          </button>
+        ))}
+        <label className="cursor-pointer aspect-square rounded-lg border border-dashed border-gray-500 text-gray-400 hover:border-white hover:text-white transition-all flex items-center justify-center text-xs">
+          <span>{t('controls.upload')}</span>
+          <input type="file" accept="image/*" multiple className="hidden" onChange={onUpload} />
+        </label>
+      </div>
+
+      {visible.length === 0 && (
+        <p className="text-xs text-gray-500">{t('gallery.noResults')}</p>
+      )}
+
+      {isUserUpload(selectedPainting) ? (
+        <UploadDetails
+          key={selectedPainting.id}
+          painting={selectedPainting}
+          onUpdate={onUpdateUpload}
+          onDelete={onDeleteUpload}
+        />
+      ) : (
+        <div className="text-xs text-gray-400 leading-relaxed">
+          <div className="text-gray-200">
+            {selectedPainting.title} <span className="text-gray-500">— {selectedPainting.artist}{selectedPainting.year ? `, ${selectedPainting.year}` : ''}</span>
+          </div>
+          {details.length > 0 && <div>{details.join(' · ')}</div>}
+          {credit.length > 0 && <div className="text-[10px] text-gray-500">{credit.join(' · ')}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaintingGallery;
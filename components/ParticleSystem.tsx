@@ -1,53 +1,164 @@
 import React, { useMemo, useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
-import { useFrame } from '@react-three/fiber';
+import { RootState, useFrame, useThree } from '@react-three/fiber';
 import { Text } from '@react-three/drei';
-import { ParticleConfig, AudioData } from '../types';
+import { ParticleConfig, AudioData, GeometryData, HighlightRegion, BrushSettings } from '../types';
+import { isAbortError } from '../services/particleLoader';
+import { getGeometry } from '../services/geometryCache';
+import { createMorph, EASINGS, MorphBuffers, staticMorph } from '../services/particleMorph';
+import {
+  createPackedAudioRoutes,
+  DEFAULT_AUDIO_ROUTES,
+  MAX_AUDIO_ROUTES,
+  packAudioRoutes
+} from '../services/audioRouting';
+import { computeCloudBounds, MAX_HIGHLIGHT_REGIONS, packHighlightRegions } from '../services/highlightRegions';
+import {
+  createBrushField,
+  createColorGrid,
+  createSpring,
+  DEFAULT_BRUSH,
+  sampleColorGrid,
+  SMEAR_FULL_SPEED,
+  stepBrushField,
+  stepSpring
+} from '../services/brush';
+import { useI18n } from './I18nProvider';
 
 interface ParticleSystemProps {
   imageUrl: string;
   config: ParticleConfig;
+  liveConfigRef?: React.MutableRefObject<ParticleConfig | null>; // Per-frame settings (tour playback), ahead of `config`
   audioDataRef?: React.MutableRefObject<AudioData>;
+  highlights?: HighlightRegion[]; // Regions referenced by the insight chat
+  brush?: BrushSettings; // Pointer interaction (services/brush.ts)
 }
 
-interface GeometryData {
-  positions: Float32Array;
-  colors: Float32Array;
-  brightness: Float32Array; // Separate attribute for brightness/depth
-  randoms: Float32Array;    // Random seed for shader noise
-  density: number;
-  src: string;
+const DEFAULT_MORPH_DURATION = 1.5; // seconds
+const HIGHLIGHT_FADE_SPEED = 4; // 1/seconds
+const PLANE_NORMAL = new THREE.Vector3(0, 0, 1); // Painting plane (z = 0) in cloud space
+const PLANE_ORIGIN = new THREE.Vector3();
+const SMEAR_PICKUP_SPEED = 6; // 1/seconds; how quickly the smear brush takes on a new colour
+
+interface MorphState {
+  id: number;
+  buffers: MorphBuffers;
+  target: GeometryData;
 }
 
 // --- Shader Definitions ---
+// Note: services/pointCloudEvaluator.ts mirrors this math on the CPU for exports; keep them in sync.
+// (Chat highlights and pointer brushes are view-only overlays and are not part of exports.)
 
 const vertexShader = `
   uniform float uTime;
   uniform float uDepth;
   uniform float uDispersion;
   uniform float uSize;
+  uniform float uMorph; // 0 = outgoing painting, 1 = incoming painting
   
   // Audio Uniforms
-  uniform float uAudioLow;  // Bass
-  uniform float uAudioHigh; // Treble
+  uniform float uAudioLow;    // Bass
+  uniform float uAudioMid;    // Mids
+  uniform float uAudioHigh;   // Treble
+  uniform float uAudioBeat;   // 1.0 on a detected beat, decaying
+  uniform float uAudioEnergy; // Overall loudness
+
+  // Modulation matrix (services/audioRouting.ts): (source, target, gain, offset) per route
+  uniform vec4 uRoutes[${MAX_AUDIO_ROUTES}];
+  uniform float uRouteCurves[${MAX_AUDIO_ROUTES}];
+  uniform int uRouteCount;
+
+  // Chat highlights
+  uniform vec4 uBounds; // Cloud XY extent (minX, minY, maxX, maxY)
+  uniform vec4 uHighlights[${MAX_HIGHLIGHT_REGIONS}]; // Normalized (x0, y0, x1, y1), origin top-left
+  uniform int uHighlightCount;
+  uniform float uHighlightMix; // Fades the overlay in and out
+
+  // Pointer brush (services/brush.ts)
+  uniform vec3 uBrushColor; // Colour the smear brush has picked up
 
   attribute float aBrightness;
   attribute float aRandom;
   attribute vec3 aColor;
 
+  // Outgoing painting state for morph transitions
+  attribute vec3 aFromPosition;
+  attribute vec3 aFromColor;
+  attribute float aFromBrightness;
+  attribute vec2 aMorphAlpha; // (outgoing, incoming) visibility
+
+  // Per-particle brush state, simulated on the CPU: (x, y, z) offset and smear tint
+  attribute vec4 aBrushOffset;
+
   varying vec3 vColor;
+  varying float vAlpha;
+  varying float vPulse;
+  varying float vHighlight;
+
+  // 1.0 if the particle's home position lies inside any highlight box
+  float highlightMask(vec3 home) {
+    vec2 extent = max(uBounds.zw - uBounds.xy, vec2(0.0001));
+    vec2 uv = vec2((home.x - uBounds.x) / extent.x, (uBounds.w - home.y) / extent.y);
+    for (int i = 0; i < ${MAX_HIGHLIGHT_REGIONS}; i++) {
+      if (i >= uHighlightCount) break;
+      vec4 box = uHighlights[i];
+      if (uv.x >= box.x && uv.x <= box.z && uv.y >= box.y && uv.y <= box.w) return 1.0;
+    }
+    return 0.0;
+  }
+
+  // Indices follow AUDIO_MOD_SOURCES / AUDIO_MOD_CURVES
+  float audioSource(float id) {
+    if (id < 0.5) return uAudioLow;
+    if (id < 1.5) return uAudioMid;
+    if (id < 2.5) return uAudioHigh;
+    if (id < 3.5) return uAudioBeat;
+    return uAudioEnergy;
+  }
+
+  float applyCurve(float id, float x) {
+    if (id < 0.5) return x;
+    if (id < 1.5) return x * x;
+    if (id < 2.5) return sqrt(x);
+    if (id < 3.5) return smoothstep(0.0, 1.0, x);
+    return 1.0 - x;
+  }
 
   void main() {
-    vColor = aColor;
-    vec3 pos = position;
+    // Sum the modulation matrix per target (AUDIO_MOD_TARGETS order)
+    float modDepth = 0.0;
+    float modWave = 0.0;
+    float modDispersion = 0.0;
+    float modBrightness = 0.0;
+    float modSize = 0.0;
+    for (int i = 0; i < ${MAX_AUDIO_ROUTES}; i++) {
+      if (i >= uRouteCount) break;
+      vec4 route = uRoutes[i];
+      float m = applyCurve(uRouteCurves[i], clamp(audioSource(route.x), 0.0, 1.0)) * route.z + route.w;
+      if (route.y < 0.5) modDepth += m;
+      else if (route.y < 1.5) modWave += m;
+      else if (route.y < 2.5) modDispersion += m;
+      else if (route.y < 3.5) modBrightness += m;
+      else modSize += m;
+    }
 
-    // 1. Calculate Z-depth based on brightness
-    // Bass boosts the depth slightly
-    float z = aBrightness * uDepth * (1.0 + uAudioLow * 0.5);
+    vColor = mix(aFromColor, aColor, uMorph);
+    vAlpha = mix(aMorphAlpha.x, aMorphAlpha.y, uMorph);
+    vec3 pos = mix(aFromPosition, position, uMorph);
+    float brightness = mix(aFromBrightness, aBrightness, uMorph);
+
+    // 0. Morph flight: particles arc outwards mid-transition
+    float flight = sin(uMorph * 3.14159265);
+    pos.x += sin(aRandom * 300.0) * flight * 8.0 * aRandom;
+    pos.y += cos(aRandom * 300.0) * flight * 8.0 * aRandom;
+
+    // 1. Calculate Z-depth based on brightness, scaled by depth modulation
+    float z = brightness * uDepth * (1.0 + modDepth) + flight * (aRandom - 0.5) * 40.0;
 
     // 2. Dispersion / Explosion Logic
-    // Base dispersion + Treble kick
-    float effectiveDispersion = uDispersion + (uAudioHigh * 5.0);
+    // Base dispersion + modulation
+    float effectiveDispersion = max(0.0, uDispersion + modDispersion);
 
     if (effectiveDispersion > 0.0) {
       float spread = effectiveDispersion * 2.0;
@@ -65,178 +176,140 @@ const vertexShader = `
     }
 
     // 3. Waving Effect (Sine wave across X axis)
-    // Bass frequencies increase the wave amplitude significantly
-    float waveAmp = 1.5 + (uAudioLow * 8.0); 
+    // Wave modulation increases the amplitude
+    float waveAmp = 1.5 + modWave;
     float waveFreq = 0.05;
     z += sin(pos.x * waveFreq + uTime) * waveAmp;
 
+    // 4. Pointer brush
+    pos.xy += aBrushOffset.xy;
+    z += aBrushOffset.z;
+    vColor = mix(vColor, uBrushColor, aBrushOffset.w);
+
+    // 5. Highlighted particles lift slightly towards the viewer
+    vHighlight = highlightMask(position) * uHighlightMix;
+    z += vHighlight * 4.0;
+
     pos.z = z;
 
     vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
     gl_Position = projectionMatrix * mvPosition;
 
     // Size attenuation (particles get smaller when further away)
-    gl_PointSize = uSize * (300.0 / -mvPosition.z);
+    gl_PointSize = uSize * max(0.0, 1.0 + modSize) * (1.0 + 0.6 * vHighlight) * (300.0 / -mvPosition.z);
+    vPulse = max(0.0, 1.0 + modBrightness);
   }
 `;
 
 const fragmentShader = `
   uniform float uBrightness;
-  uniform float uAudioMid; // Mids
+  uniform float uTime;
+  uniform float uHighlightMix;
   varying vec3 vColor;
+  varying float vAlpha;
+  varying float vPulse; // Brightness modulation from the audio matrix
+  varying float vHighlight;
 
   void main() {
     // Create a circular soft particle
     vec2 coord = gl_PointCoord - vec2(0.5);
-    if (length(coord) > 0.5) discard;
+    if (length(coord) > 0.5 || vAlpha < 0.01) discard;
 
-    // Output color multiplied by global brightness
-    // Mids make the particles pulse brighter
-    float pulse = 1.0 + uAudioMid * 1.5;
-    gl_FragColor = vec4(vColor * uBrightness * pulse, 0.85);
-  }
-`;
-
-// --- Caching System ---
-const geometryCache = new Map<string, GeometryData>();
+    // Output color multiplied by global brightness and the audio pulse
+    vec3 color = vColor * uBrightness * vPulse;
 
-// Helper to load image and extract pixel data
-const loadImageData = (src: string, density: number): Promise<GeometryData> => {
-  const cacheKey = `${src}-${density}`;
+    // While a highlight is shown the rest of the cloud dims and the region glows
+    float glow = vHighlight * (0.8 + 0.2 * sin(uTime * 4.0));
+    color = mix(color * (1.0 - 0.6 * uHighlightMix), color * 1.6 + vec3(0.35, 0.3, 0.15), glow);
 
-  // Check Cache
-  if (geometryCache.has(cacheKey)) {
-    return Promise.resolve(geometryCache.get(cacheKey)!);
+    gl_FragColor = vec4(color, 0.85 * vAlpha);
   }
+`;
 
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "Anonymous";
-    
-    // Logic to determine if proxy is needed
-    // Blob URLs (user uploads) and Data URLs do not need a proxy
-    const isLocal = src.startsWith('blob:') || src.startsWith('data:');
-    const proxyUrl = isLocal ? src : `https://wsrv.nl/?url=${encodeURIComponent(src)}&output=jpg`;
-    
-    img.src = proxyUrl;
-
-    img.onload = () => {
-      try {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d', { willReadFrequently: true });
-        if (!ctx) {
-          reject(new Error("Failed to get 2D context"));
-          return;
-        }
-
-        const width = img.width;
-        const height = img.height;
-        canvas.width = width;
-        canvas.height = height;
-        
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        const imgData = ctx.getImageData(0, 0, width, height);
-        const data = imgData.data;
-
-        const positions: number[] = [];
-        const colors: number[] = [];
-        const brightnessArr: number[] = [];
-        const randoms: number[] = [];
-
-        // Calculate center offset
-        const cx = width / 2;
-        const cy = height / 2;
-
-        // Calculate step based on density config
-        const safeDensity = Math.max(0.5, Math.min(10, density));
-        let step = Math.max(1, Math.round(6 / safeDensity));
-        
-        if (width * height > 2000000 && step < 2) step = 2;
-
-        const scale = 0.1; // Scale down the world unit size
-
-        for (let y = 0; y < height; y += step) {
-          for (let x = 0; x < width; x += step) {
-            const i = (y * width + x) * 4;
-            
-            const r = data[i] / 255;
-            const g = data[i + 1] / 255;
-            const b = data[i + 2] / 255;
-            const a = data[i + 3] / 255;
-
-            if (a < 0.1) continue; 
-
-            const brightVal = (r + g + b) / 3;
-
-            // Static Grid Position
-            positions.push((x - cx) * scale, -(y - cy) * scale, 0);
-            
-            // Attributes
-            colors.push(r, g, b);
-            brightnessArr.push(brightVal);
-            randoms.push(Math.random()); // Stable random value for shader noise
-          }
-        }
-
-        const result: GeometryData = {
-          positions: new Float32Array(positions),
-          colors: new Float32Array(colors),
-          brightness: new Float32Array(brightnessArr),
-          randoms: new Float32Array(randoms),
-          density: density,
-          src: src
-        };
-
-        // Update Cache
-        geometryCache.set(cacheKey, result);
-        
-        // Optional: Limit cache size (simple LRU-like clearing if too big)
-        if (geometryCache.size > 10) {
-           const firstKey = geometryCache.keys().next().value;
-           if (firstKey) geometryCache.delete(firstKey);
-        }
-
-        resolve(result);
-      } catch (err) {
-        reject(err);
-      }
-    };
-
-    img.onerror = (e) => {
-      console.error("Image loading error", e);
-      reject(new Error(`Failed to load image`));
-    };
-  });
-};
-
-const ParticleSystem: React.FC<ParticleSystemProps> = ({ imageUrl, config, audioDataRef }) => {
+const ParticleSystem: React.FC<ParticleSystemProps> = ({ imageUrl, config, liveConfigRef, audioDataRef, highlights, brush }) => {
+  const { t } = useI18n();
   const materialRef = useRef<THREE.ShaderMaterial>(null);
   const pointsRef = useRef<THREE.Points>(null);
   const [geometryData, setGeometryData] = useState<GeometryData | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [morph, setMorph] = useState<MorphState | null>(null);
+  const morphRef = useRef<MorphState | null>(null);
+  // Raw (linear) progress and eased value of the running transition
+  const morphClock = useRef({ start: null as number | null, progress: 1, value: 1 });
+
+  const semantic = Boolean(config.useSemanticDepth);
 
-  // Load and process image when URL changes or density changes
+  // Load and process image when URL, density or depth mode changes.
+  // Aborting on cleanup cancels stale jobs while the density slider is scrubbed.
   useEffect(() => {
     setError(null);
-    let isMounted = true;
+    setProgress(0);
+    const controller = new AbortController();
 
-    loadImageData(imageUrl, config.density)
+    getGeometry(imageUrl, config.density, semantic, {
+      signal: controller.signal,
+      onProgress: setProgress
+    })
       .then((data) => {
-        if (isMounted) {
+        if (!controller.signal.aborted) {
           setGeometryData(data);
         }
       })
       .catch(err => {
-        if (isMounted) {
+        if (!controller.signal.aborted && !isAbortError(err)) {
           console.error("Failed to load image particles", err);
           setError(err.message);
           setGeometryData(null);
         }
       });
 
-      return () => { isMounted = false; };
-  }, [imageUrl, config.density]);
+      return () => controller.abort();
+  }, [imageUrl, config.density, semantic]);
+
+  // Morph from whatever is on screen (even mid-transition) to newly loaded geometry
+  useEffect(() => {
+    if (!geometryData) return;
+
+    const current = morphRef.current;
+    const duration = config.morphDuration ?? DEFAULT_MORPH_DURATION;
+    const animate = current !== null && duration > 0;
+
+    const next: MorphState = {
+      id: (current?.id ?? 0) + 1,
+      buffers: animate
+        ? createMorph(current.buffers, morphClock.current.value, geometryData)
+        : staticMorph(geometryData),
+      target: geometryData
+    };
+
+    morphClock.current = animate
+      ? { start: null, progress: 0, value: 0 }
+      : { start: null, progress: 1, value: 1 };
+    morphRef.current = next;
+    setMorph(next);
+  }, [geometryData]);
+
+  // Uniform arrays for the audio modulation matrix, rewritten in place when routes change
+  const packedRoutes = useMemo(createPackedAudioRoutes, []);
+
+  // Highlight boxes and the cloud extent they are mapped onto
+  const highlightBoxes = useMemo(() => new Float32Array(MAX_HIGHLIGHT_REGIONS * 4), []);
+  const cloudBounds = useMemo(() => new Float32Array([0, 0, 1, 1]), []);
+  const highlightTarget = useRef(0);
+  const lastFrameTime = useRef(0);
+
+  // Pointer brush: per-particle springs (services/brush.ts), plus one for the smear motion
+  const domElement = useThree((state) => state.gl.domElement);
+  const pointerInside = useRef(false);
+  const lastBrushHit = useRef<THREE.Vector2 | null>(null);
+  const colorGrid = useRef<Float32Array | null>(null);
+  const pickedColor = useMemo(() => new THREE.Color(), []);
+  const brushHit = useMemo(() => new THREE.Vector3(), []);
+  const brushPlane = useMemo(() => new THREE.Plane(), []);
+  const brushMotion = useMemo(() => ({ x: createSpring(), y: createSpring() }), []);
+  // A fresh field for every cloud; particles of the outgoing one snap home
+  const brushField = useMemo(() => createBrushField(morph?.buffers.count ?? 0), [morph]);
 
   // Initialize Uniforms object for Shader
   const uniforms = useMemo(() => ({
@@ -245,26 +318,168 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({ imageUrl, config, audio
     uDispersion: { value: config.dispersion },
     uBrightness: { value: config.brightness },
     uSize: { value: config.size },
+    uMorph: { value: 1 },
     // Audio Uniforms
     uAudioLow: { value: 0 },
     uAudioMid: { value: 0 },
-    uAudioHigh: { value: 0 }
+    uAudioHigh: { value: 0 },
+    uAudioBeat: { value: 0 },
+    uAudioEnergy: { value: 0 },
+    uRoutes: { value: packedRoutes.routes },
+    uRouteCurves: { value: packedRoutes.curves },
+    uRouteCount: { value: 0 },
+    uBounds: { value: new THREE.Vector4(0, 0, 1, 1) },
+    uHighlights: { value: highlightBoxes },
+    uHighlightCount: { value: 0 },
+    uHighlightMix: { value: 0 },
+    uBrushColor: { value: new THREE.Color() }
   }), []);
 
+  useEffect(() => {
+    packAudioRoutes(config.audioRoutes ?? DEFAULT_AUDIO_ROUTES, packedRoutes);
+    uniforms.uRouteCount.value = packedRoutes.count;
+  }, [config.audioRoutes]);
+
+  useEffect(() => {
+    if (!geometryData) return;
+    computeCloudBounds(geometryData.positions, cloudBounds);
+    uniforms.uBounds.value.fromArray(cloudBounds);
+    colorGrid.current = createColorGrid(geometryData.positions, geometryData.colors, cloudBounds);
+  }, [geometryData]);
+
+  // Keep the old boxes while the overlay fades out
+  useEffect(() => {
+    const regions = highlights ?? [];
+    highlightTarget.current = regions.length > 0 ? 1 : 0;
+    if (regions.length > 0) uniforms.uHighlightCount.value = packHighlightRegions(regions, highlightBoxes);
+  }, [highlights]);
+
+  // The pointer only counts while it is over the canvas itself (not over the UI panels)
+  useEffect(() => {
+    const enter = () => { pointerInside.current = true; };
+    const leave = () => { pointerInside.current = false; };
+    domElement.addEventListener('pointerenter', enter);
+    domElement.addEventListener('pointerleave', leave);
+    return () => {
+      domElement.removeEventListener('pointerenter', enter);
+      domElement.removeEventListener('pointerleave', leave);
+    };
+  }, [domElement]);
+
+  // Raycast the pointer onto the painting plane and step the per-particle brush springs
+  const updateBrush = (state: RootState, step: number) => {
+    const { radius, strength, mode } = brush ?? DEFAULT_BRUSH;
+    const points = pointsRef.current;
+    const buffers = morphRef.current?.buffers;
+    if (!points || !buffers || buffers.count !== brushField.count) return;
+    let touching = false;
+
+    if (mode !== 'off' && pointerInside.current) {
+      state.raycaster.setFromCamera(state.pointer, state.camera);
+      brushPlane.setFromNormalAndCoplanarPoint(PLANE_NORMAL, PLANE_ORIGIN).applyMatrix4(points.matrixWorld);
+      if (state.raycaster.ray.intersectPlane(brushPlane, brushHit)) {
+        points.worldToLocal(brushHit);
+        touching =
+          brushHit.x >= cloudBounds[0] - radius && brushHit.x <= cloudBounds[2] + radius &&
+          brushHit.y >= cloudBounds[1] - radius && brushHit.y <= cloudBounds[3] + radius;
+      }
+    }
+
+    let motionX = 0;
+    let motionY = 0;
+    if (touching) {
+      const last = lastBrushHit.current;
+      if (last && step > 0) {
+        motionX = (brushHit.x - last.x) / step / SMEAR_FULL_SPEED;
+        motionY = (brushHit.y - last.y) / step / SMEAR_FULL_SPEED;
+        const length = Math.hypot(motionX, motionY);
+        if (length > 1) {
+          motionX /= length;
+          motionY /= length;
+        }
+      } else if (brushField.movingCount === 0 && colorGrid.current) {
+        // A fresh stroke starts with the colour under the pointer
+        sampleColorGrid(colorGrid.current, cloudBounds, brushHit.x, brushHit.y, uniforms.uBrushColor.value);
+      }
+      lastBrushHit.current = (last ?? new THREE.Vector2()).set(brushHit.x, brushHit.y);
+    } else {
+      lastBrushHit.current = null;
+    }
+
+    stepSpring(brushMotion.x, motionX, step);
+    stepSpring(brushMotion.y, motionY, step);
+
+    // The smear brush picks up the colour one radius behind the stroke and blends towards it
+    if (touching && mode === 'smear' && colorGrid.current) {
+      const behindX = brushHit.x - brushMotion.x.value * radius;
+      const behindY = brushHit.y - brushMotion.y.value * radius;
+      if (sampleColorGrid(colorGrid.current, cloudBounds, behindX, behindY, pickedColor)) {
+        uniforms.uBrushColor.value.lerp(pickedColor, Math.min(1, step * SMEAR_PICKUP_SPEED));
+      }
+    }
+
+    const stroke = touching
+      ? { mode, x: brushHit.x, y: brushHit.y, motionX: brushMotion.x.value, motionY: brushMotion.y.value, radius, strength }
+      : null;
+    const changed = stepBrushField(brushField, buffers.positions, stroke, step);
+    if (!changed) return;
+
+    // Upload only the span of particles that moved
+    const attribute = points.geometry.getAttribute('aBrushOffset') as THREE.BufferAttribute;
+    attribute.clearUpdateRanges();
+    attribute.addUpdateRange(changed.first * 4, (changed.last - changed.first + 1) * 4);
+    attribute.needsUpdate = true;
+  };
+
   // Update uniforms every frame (GPU animation)
   useFrame((state) => {
+    // Read (not advance) the clock so offline recording can step time manually
+    const elapsed = state.clock.elapsedTime;
+    const clock = morphClock.current;
+
+    if (clock.progress < 1) {
+      if (clock.start === null) clock.start = elapsed;
+      const duration = config.morphDuration ?? DEFAULT_MORPH_DURATION;
+      const ease = EASINGS[config.morphEasing ?? 'easeInOutCubic'];
+      clock.progress = duration > 0 ? Math.min(1, (elapsed - clock.start) / duration) : 1;
+      clock.value = clock.progress >= 1 ? 1 : ease(clock.progress);
+
+      // Transition finished: collapse to the plain target cloud to release the outgoing buffers
+      if (clock.progress >= 1 && morphRef.current) {
+        const settled: MorphState = {
+          id: morphRef.current.id + 1,
+          buffers: staticMorph(morphRef.current.target),
+          target: morphRef.current.target
+        };
+        morphRef.current = settled;
+        setMorph(settled);
+      }
+    }
+
     if (materialRef.current) {
-        materialRef.current.uniforms.uTime.value = state.clock.getElapsedTime();
-        materialRef.current.uniforms.uDepth.value = config.depth;
-        materialRef.current.uniforms.uDispersion.value = config.dispersion;
-        materialRef.current.uniforms.uBrightness.value = config.brightness;
-        materialRef.current.uniforms.uSize.value = config.size;
+        materialRef.current.uniforms.uTime.value = elapsed;
+        materialRef.current.uniforms.uMorph.value = clock.value;
+        const live = liveConfigRef?.current ?? config;
+        materialRef.current.uniforms.uDepth.value = live.depth;
+        materialRef.current.uniforms.uDispersion.value = live.dispersion;
+        materialRef.current.uniforms.uBrightness.value = live.brightness;
+        materialRef.current.uniforms.uSize.value = live.size;
+
+        // Frame time from the same clock, so the fade also works under offline recording
+        const step = Math.max(0, elapsed - lastFrameTime.current);
+        const mix = materialRef.current.uniforms.uHighlightMix;
+        mix.value += (highlightTarget.current - mix.value) * Math.min(1, step * HIGHLIGHT_FADE_SPEED);
+        lastFrameTime.current = elapsed;
+
+        updateBrush(state, step);
 
         // Apply Audio Data if available
         if (audioDataRef) {
           materialRef.current.uniforms.uAudioLow.value = audioDataRef.current.low;
           materialRef.current.uniforms.uAudioMid.value = audioDataRef.current.mid;
           materialRef.current.uniforms.uAudioHigh.value = audioDataRef.current.high;
+          materialRef.current.uniforms.uAudioBeat.value = audioDataRef.current.beat;
+          materialRef.current.uniforms.uAudioEnergy.value = audioDataRef.current.energy;
         }
     }
   });
@@ -277,37 +492,78 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({ imageUrl, config, audio
      )
   }
 
-  // Strict sync check
-  if (!geometryData || geometryData.density !== config.density || geometryData.src !== imageUrl) return null;
+  // Keep showing the current cloud while the next one loads
+  if (!morph) {
+    return progress > 0 && progress < 1 ? (
+      <Text color="gray" fontSize={1.5} position={[0, 0, 0]}>
+         {t('controls.sampling', { percent: Math.round(progress * 100) })}
+      </Text>
+    ) : null;
+  }
+
+  const { buffers } = morph;
 
   return (
-    <points ref={pointsRef} key={`${geometryData.src}-${geometryData.density}`}>
+    <points ref={pointsRef} key={morph.id}>
        <bufferGeometry>
         {/* Pass all attributes to the Vertex Shader */}
         <bufferAttribute
             attach="attributes-position"
-            count={geometryData.positions.length / 3}
-            array={geometryData.positions}
+            count={buffers.count}
+            array={buffers.positions}
             itemSize={3}
         />
         <bufferAttribute
             attach="attributes-aColor" // Note: 'color' attribute name is reserved in some Three versions, but 'aColor' is safer for custom shaders
-            count={geometryData.colors.length / 3}
-            array={geometryData.colors}
+            count={buffers.count}
+            array={buffers.colors}
             itemSize={3}
         />
         <bufferAttribute
             attach="attributes-aBrightness"
-            count={geometryData.brightness.length}
-            array={geometryData.brightness}
+            count={buffers.count}
+            array={buffers.brightness}
             itemSize={1}
         />
         <bufferAttribute
             attach="attributes-aRandom"
-            count={geometryData.randoms.length}
-            array={geometryData.randoms}
+            count={buffers.count}
+            array={buffers.randoms}
             itemSize={1}
         />
+        {/* Outgoing state for morph transitions */}
+        <bufferAttribute
+            attach="attributes-aFromPosition"
+            count={buffers.count}
+            array={buffers.fromPositions}
+            itemSize={3}
+        />
+        <bufferAttribute
+            attach="attributes-aFromColor"
+            count={buffers.count}
+            array={buffers.fromColors}
+            itemSize={3}
+        />
+        <bufferAttribute
+            attach="attributes-aFromBrightness"
+            count={buffers.count}
+            array={buffers.fromBrightness}
+            itemSize={1}
+        />
+        <bufferAttribute
+            attach="attributes-aMorphAlpha"
+            count={buffers.count}
+            array={buffers.alphas}
+            itemSize={2}
+        />
+        {/* Brush offsets, rewritten every frame while particles are away from home */}
+        <bufferAttribute
+            attach="attributes-aBrushOffset"
+            count={buffers.count}
+            array={brushField.offsets}
+            itemSize={4}
+            usage={THREE.DynamicDrawUsage}
+        />
       </bufferGeometry>
       
       <shaderMaterial
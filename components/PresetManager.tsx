@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConfigPreset, Painting, ParticleConfig } from '../types';
+import {
+  deleteUserPreset,
+  exportPresets,
+  findPreset,
+  getActivePresetId,
+  getAllPresets,
+  getPaintingPresets,
+  importPresets,
+  loadUserPresets,
+  saveUserPreset,
+  setActivePresetId,
+  setPaintingPreset
+} from '../services/presets';
+import { downloadBlob } from '../services/download';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface PresetManagerProps {
+  config: ParticleConfig;
+  onConfigChange: (c: ParticleConfig) => void;
+  selectedPainting: Painting;
+}
+
+const BUILT_IN_NAMES: Record<string, MessageKey> = {
+  'builtin-default': 'preset.default',
+  'builtin-relief': 'preset.relief',
+  'builtin-nebula': 'preset.nebula',
+  'builtin-flat-print': 'preset.flatPrint'
+};
+
+const sameConfig = (a: ParticleConfig, b: ParticleConfig) => JSON.stringify(a) === JSON.stringify(b);
+
+const PresetManager: React.FC<PresetManagerProps> = ({ config, onConfigChange, selectedPainting }) => {
+  const { t } = useI18n();
+  const [presets, setPresets] = useState<ConfigPreset[]>(getAllPresets);
+  const [activeId, setActiveId] = useState<string | null>(getActivePresetId);
+  const [paintingAssignments, setPaintingAssignments] = useState<Record<string, string>>(getPaintingPresets);
+  const [newName, setNewName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const activePreset = presets.find(p => p.id === activeId);
+  const isModified = activePreset ? !sameConfig(activePreset.config, config) : false;
+  const autoApply = Boolean(activeId) && paintingAssignments[selectedPainting.id] === activeId;
+
+  const presetName = (preset: ConfigPreset) =>
+    preset.builtIn && BUILT_IN_NAMES[preset.id] ? t(BUILT_IN_NAMES[preset.id]) : preset.name;
+
+  const refresh = () => {
+    setPresets(getAllPresets());
+    setActiveId(getActivePresetId());
+    setPaintingAssignments(getPaintingPresets());
+  };
+
+  const applyPreset = (preset: ConfigPreset) => {
+    setActivePresetId(preset.id);
+    setActiveId(preset.id);
+    onConfigChange(preset.config);
+  };
+
+  // App applies a painting's assigned preset when the user picks the painting (see selectPainting)
+  useEffect(() => {
+    setActiveId(getActivePresetId());
+  }, [selectedPainting.id]);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = findPreset(e.target.value);
+    if (preset) applyPreset(preset);
+  };
+
+  const handleSave = () => {
+    const name = newName.trim() || (activePreset && presetName(activePreset));
+    if (!name) return;
+
+    try {
+      const preset = saveUserPreset(name, config);
+      setActivePresetId(preset.id);
+      setNewName('');
+      setMessage({ text: t('preset.savedMessage', { name: preset.name }), isError: false });
+      refresh();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), isError: true });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!activePreset || activePreset.builtIn) return;
+    deleteUserPreset(activePreset.id);
+    setMessage({ text: t('preset.deletedMessage', { name: activePreset.name }), isError: false });
+    refresh();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(loadUserPresets())], { type: 'application/json' });
+    downloadBlob(blob, 'artparticle-presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importPresets(await file.text());
+      setMessage({ text: t('preset.importedMessage', { count: imported.length }), isError: false });
+      refresh();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), isError: true });
+    }
+  };
+
+  const handleAutoApply = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setPaintingPreset(selectedPainting.id, e.target.checked ? activeId : null);
+    setPaintingAssignments(getPaintingPresets());
+  };
+
+  const hasUserPresets = presets.some(p => !p.builtIn);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-xs text-gray-400">
+        <label>{t('preset.label')}</label>
+        {isModified && <span className="text-[10px] text-amber-300">{t('preset.modified')}</span>}
+      </div>
+
+      <select
+        value={activeId ?? ''}
+        onChange={handleSelect}
+        className="w-full bg-black/40 border border-white/10 rounded text-xs text-gray-300 px-2 py-1 focus:outline-none"
+      >
+        <option value="" disabled>{t('preset.custom')}</option>
+        <optgroup label={t('preset.builtIn')}>
+          {presets.filter(p => p.builtIn).map(p => <option key={p.id} value={p.id}>{presetName(p)}</option>)}
+        </optgroup>
+        {hasUserPresets && (
+          <optgroup label={t('preset.saved')}>
+            {presets.filter(p => !p.builtIn).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={activePreset && !activePreset.builtIn ? activePreset.name : t('preset.namePlaceholder')}
+          className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded text-xs text-gray-300 px-2 py-1 focus:outline-none"
+        />
+        <button
+          onClick={handleSave}
+          className="px-2 py-0.5 text-[10px] rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors"
+        >
+          {t('preset.save')}
+        </button>
+      </div>
+
+      <div className="flex gap-1 text-[10px]">
+        <button
+          onClick={handleDelete}
+          disabled={!activePreset || activePreset.builtIn}
+          className="flex-1 px-2 py-0.5 rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          {t('preset.delete')}
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={!hasUserPresets}
+          className="flex-1 px-2 py-0.5 rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          {t('preset.export')}
+        </button>
+        <button
+          onClick={() => importRef.current?.click()}
+          className="flex-1 px-2 py-0.5 rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors"
+        >
+          {t('preset.import')}
+        </button>
+        <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+
+      <label className="flex items-center justify-between text-[10px] text-gray-500 cursor-pointer">
+        <span className="truncate pr-2">{t('preset.autoApply', { title: selectedPainting.title })}</span>
+        <input
+          type="checkbox"
+          checked={autoApply}
+          disabled={!activeId}
+          onChange={handleAutoApply}
+          className="accent-purple-500 cursor-pointer"
+        />
+      </label>
+
+      {message && (
+        <p className={`text-[10px] ${message.isError ? 'text-red-400' : 'text-gray-500'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default PresetManager;
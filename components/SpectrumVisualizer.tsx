@@ -0,0 +1,139 @@
+import React, { useEffect, useRef } from 'react';
+import { AudioData } from '../types';
+import { AudioGraph } from '../services/audioInput';
+import { AnalysisSettings, BandId } from '../services/audioAnalysis';
+
+interface SpectrumVisualizerProps {
+  graphRef: React.MutableRefObject<AudioGraph | null>;
+  audioDataRef: React.MutableRefObject<AudioData>;
+  bands: AnalysisSettings['bands'];
+  isActive: boolean;
+}
+
+const HEIGHT = 72;
+const METER_WIDTH = 30; // Right-hand column with the live band levels
+const MIN_HZ = 20;
+
+const BAND_COLORS: Record<BandId, string> = {
+  low: '#3b82f6',  // blue-500
+  mid: '#a855f7',  // purple-500
+  high: '#ec4899'  // pink-500
+};
+
+const BAND_IDS: BandId[] = ['low', 'mid', 'high'];
+
+// Log-frequency spectrum + waveform from the live AnalyserNode, with the analysis
+// band boundaries and the resulting AudioData levels drawn on top.
+const SpectrumVisualizer: React.FC<SpectrumVisualizerProps> = ({ graphRef, audioDataRef, bands, isActive }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const bandsRef = useRef(bands);
+  bandsRef.current = bands;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let frame = 0;
+    let spectrum = new Uint8Array(0);
+    let waveform = new Uint8Array(0);
+
+    const draw = () => {
+      // Match the backing store to the CSS size (sidebar width, HiDPI)
+      const dpr = window.devicePixelRatio || 1;
+      const cssWidth = canvas.clientWidth;
+      if (canvas.width !== Math.round(cssWidth * dpr) || canvas.height !== Math.round(HEIGHT * dpr)) {
+        canvas.width = Math.round(cssWidth * dpr);
+        canvas.height = Math.round(HEIGHT * dpr);
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, cssWidth, HEIGHT);
+
+      const width = cssWidth - METER_WIDTH;
+      const analyser = graphRef.current?.analyser;
+      const nyquist = analyser ? analyser.context.sampleRate / 2 : 22050;
+      const logSpan = Math.log(nyquist / MIN_HZ);
+      const xForHz = (hz: number) => (Math.log(Math.max(hz, MIN_HZ) / MIN_HZ) / logSpan) * width;
+
+      // Band regions and boundaries
+      BAND_IDS.forEach((id) => {
+        const [minHz, maxHz] = bandsRef.current[id];
+        const x0 = xForHz(minHz);
+        const x1 = Math.min(width, xForHz(maxHz));
+        ctx.fillStyle = `${BAND_COLORS[id]}14`;
+        ctx.fillRect(x0, 0, x1 - x0, HEIGHT);
+        ctx.strokeStyle = `${BAND_COLORS[id]}80`;
+        ctx.beginPath();
+        ctx.moveTo(x0 + 0.5, 0);
+        ctx.lineTo(x0 + 0.5, HEIGHT);
+        ctx.stroke();
+      });
+
+      if (analyser) {
+        const bins = analyser.frequencyBinCount;
+        if (spectrum.length !== bins) spectrum = new Uint8Array(bins);
+        if (waveform.length !== analyser.fftSize) waveform = new Uint8Array(analyser.fftSize);
+        analyser.getByteFrequencyData(spectrum);
+        analyser.getByteTimeDomainData(waveform);
+
+        // Spectrum: one column per pixel, taking the loudest bin that falls into it
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.55)';
+        const hzPerBin = nyquist / bins;
+        for (let x = 0; x < width; x++) {
+          const fromHz = MIN_HZ * Math.exp((x / width) * logSpan);
+          const toHz = MIN_HZ * Math.exp(((x + 1) / width) * logSpan);
+          const fromBin = Math.floor(fromHz / hzPerBin);
+          const toBin = Math.max(fromBin + 1, Math.ceil(toHz / hzPerBin));
+          let peak = 0;
+          for (let b = fromBin; b < toBin && b < bins; b++) peak = Math.max(peak, spectrum[b]);
+          const h = (peak / 255) * HEIGHT;
+          ctx.fillRect(x, HEIGHT - h, 1, h);
+        }
+
+        // Waveform overlay
+        ctx.strokeStyle = 'rgba(96, 165, 250, 0.8)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let i = 0; i < waveform.length; i++) {
+          const x = (i / (waveform.length - 1)) * width;
+          const y = (waveform[i] / 255) * HEIGHT;
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      }
+
+      // Live band levels (what the particles actually receive)
+      const audio = audioDataRef.current;
+      const meterWidth = (METER_WIDTH - 6) / 3;
+      BAND_IDS.forEach((id, i) => {
+        const h = Math.min(1, audio[id]) * HEIGHT;
+        ctx.fillStyle = BAND_COLORS[id];
+        ctx.fillRect(width + 4 + i * (meterWidth + 1), HEIGHT - h, meterWidth, h);
+      });
+
+      // Beat indicator
+      if (audio.beat > 0.05) {
+        ctx.fillStyle = `rgba(255, 255, 255, ${audio.beat})`;
+        ctx.beginPath();
+        ctx.arc(width + METER_WIDTH / 2 + 2, 5, 3, 0, Math.PI * 2);
+        ctx.fill();
+      }
+
+      frame = requestAnimationFrame(draw);
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [graphRef, audioDataRef]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`w-full rounded transition-opacity ${isActive ? 'opacity-100' : 'opacity-50'}`}
+      style={{ height: HEIGHT }}
+    />
+  );
+};
+
+export default SpectrumVisualizer;
@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { CameraApi, MorphEasing, Painting, ParticleConfig, Tour, TourKeyframe } from '../types';
+import { MORPH_EASINGS } from '../services/configSchema';
+import { addKeyframe, exportTour, importTour, removeKeyframe, tourDuration, updateKeyframe } from '../services/tour';
+import { downloadBlob, slugify } from '../services/download';
+import { EASING_LABELS, MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface TourPanelProps {
+  tour: Tour;
+  onChange: (tour: Tour) => void;
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  onPreview: (keyframe: TourKeyframe) => void;
+  cameraApiRef: React.MutableRefObject<CameraApi | null>;
+  config: ParticleConfig;
+  selectedPainting: Painting;
+  paintings: Painting[];
+}
+
+const OPTIONS: { key: 'loop' | 'syncToAudio' | 'autoplay'; label: MessageKey }[] = [
+  { key: 'loop', label: 'tour.loop' },
+  { key: 'syncToAudio', label: 'tour.syncToAudio' },
+  { key: 'autoplay', label: 'tour.autoplay' }
+];
+
+// Keyframe sequencer for guided tours: record the current view, adjust timing and
+// easing, play back, and save or load tours as JSON
+const TourPanel: React.FC<TourPanelProps> = ({
+  tour,
+  onChange,
+  playing,
+  onPlayingChange,
+  onPreview,
+  cameraApiRef,
+  config,
+  selectedPainting,
+  paintings
+}) => {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const titleOf = (id: string) => paintings.find(p => p.id === id)?.title ?? t('tour.missingPainting');
+
+  const handleAdd = () => {
+    const camera = cameraApiRef.current?.getState();
+    if (!camera) return;
+    onChange(addKeyframe(tour, { camera, config, paintingId: selectedPainting.id, easing: 'easeInOutCubic' }));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportTour(tour)], { type: 'application/json' });
+    downloadBlob(blob, `${slugify(tour.name)}.tour.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onPlayingChange(false);
+      onChange(importTour(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-white/10 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wider">{t('tour.title')}</h3>
+        <span className="text-[10px] text-gray-500">{t('tour.duration', { seconds: tourDuration(tour).toFixed(1) })}</span>
+      </div>
+
+      <input
+        type="text"
+        value={tour.name}
+        onChange={(e) => onChange({ ...tour, name: e.target.value })}
+        className="w-full bg-black/40 border border-white/10 rounded text-xs text-gray-300 px-2 py-1 focus:outline-none"
+      />
+
+      {tour.keyframes.length === 0 ? (
+        <p className="text-[10px] text-gray-500">{t('tour.empty')}</p>
+      ) : (
+        <ol className="space-y-1 max-h-40 overflow-y-auto">
+          {tour.keyframes.map((keyframe, i) => (
+            <li key={`${i}-${keyframe.time}`} className="flex items-center gap-1 text-[10px] text-gray-400">
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                defaultValue={keyframe.time}
+                title={t('tour.time')}
+                // Applied on blur: the list re-sorts by time
+                onBlur={(e) => {
+                  const time = parseFloat(e.target.value);
+                  if (Number.isFinite(time) && time >= 0 && time !== keyframe.time) onChange(updateKeyframe(tour, i, { time }));
+                }}
+                className="w-12 bg-black/40 border border-white/10 rounded px-1 py-0.5 focus:outline-none"
+              />
+              <button
+                onClick={() => onPreview(keyframe)}
+                title={t('tour.preview')}
+                className="flex-1 min-w-0 truncate text-left hover:text-white transition-colors"
+              >
+                {titleOf(keyframe.paintingId)}
+              </button>
+              <select
+                value={keyframe.easing}
+                onChange={(e) => onChange(updateKeyframe(tour, i, { easing: e.target.value as MorphEasing }))}
+                title={t('tour.easing')}
+                className="w-20 bg-black/40 border border-white/10 rounded py-0.5 focus:outline-none"
+              >
+                {MORPH_EASINGS.map(easing => (
+                  <option key={easing} value={easing}>{t(EASING_LABELS[easing])}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onChange(removeKeyframe(tour, i))}
+                title={t('tour.remove')}
+                className="px-1 hover:text-red-400 transition-colors"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex gap-1 text-[10px]">
+        <button
+          onClick={handleAdd}
+          disabled={playing}
+          className="flex-1 px-2 py-0.5 rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          {t('tour.addKeyframe')}
+        </button>
+        <button
+          onClick={() => onPlayingChange(!playing)}
+          disabled={tour.keyframes.length < 2}
+          className="flex-1 px-2 py-0.5 rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          {playing ? t('tour.stop') : t('tour.play')}
+        </button>
+      </div>
+
+      {OPTIONS.map(({ key, label }) => (
+        <label key={key} className="flex items-center justify-between text-[10px] text-gray-500 cursor-pointer">
+          <span>{t(label)}</span>
+          <input
+            type="checkbox"
+            checked={tour[key]}
+            onChange={(e) => onChange({ ...tour, [key]: e.target.checked })}
+            className="accent-purple-500 cursor-pointer"
+          />
+        </label>
+      ))}
+
+      <div className="flex gap-1 text-[10px]">
+        <button
+          onClick={handleExport}
+          disabled={tour.keyframes.length === 0}
+          className="flex-1 px-2 py-0.5 rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          {t('tour.save')}
+        </button>
+        <button
+          onClick={() => importRef.current?.click()}
+          className="flex-1 px-2 py-0.5 rounded border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-colors"
+        >
+          {t('tour.load')}
+        </button>
+        <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default TourPanel;
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { AudioPlayerApi, CameraApi, ParticleConfig, Tour } from '../types';
+import { sampleTour, tourDuration, TourSample } from '../services/tour';
+
+interface TourPlayerProps {
+  tour: Tour;
+  playing: boolean;
+  cameraApiRef: React.MutableRefObject<CameraApi | null>;
+  audioPlayerApiRef: React.MutableRefObject<AudioPlayerApi | null>;
+  liveConfigRef: React.MutableRefObject<ParticleConfig | null>; // Blended settings, written every frame
+  onSample: (sample: TourSample) => void; // Painting and settings to show, on reaching each keyframe
+  onEnd: () => void;
+}
+
+// Lives inside the Canvas and plays a tour. Time comes from the render clock (so
+// offline video recording steps through it) or from the playing track.
+// Camera and blended settings move every frame without re-rendering the app;
+// React state only changes when playback moves on to the next keyframe.
+const TourPlayer: React.FC<TourPlayerProps> = ({
+  tour,
+  playing,
+  cameraApiRef,
+  audioPlayerApiRef,
+  liveConfigRef,
+  onSample,
+  onEnd
+}) => {
+  const startRef = useRef<number | null>(null);
+  const lastIndexRef = useRef(-1);
+
+  // Every play starts from the beginning
+  useEffect(() => {
+    startRef.current = null;
+    lastIndexRef.current = -1;
+  }, [playing, tour]);
+
+  useFrame((state) => {
+    if (!playing) return;
+    const elapsed = state.clock.elapsedTime;
+    if (startRef.current === null) startRef.current = elapsed;
+
+    const duration = tourDuration(tour);
+    const audioTime = tour.syncToAudio ? audioPlayerApiRef.current?.getPlaybackTime() ?? null : null;
+    let time = audioTime ?? elapsed - startRef.current;
+
+    if (time > duration) {
+      if (!tour.loop) {
+        const last = sampleTour(tour, duration);
+        if (last) {
+          cameraApiRef.current?.setState(last.camera);
+          liveConfigRef.current = last.config;
+          onSample(last);
+        }
+        onEnd();
+        return;
+      }
+      time = duration > 0 ? time % duration : 0;
+    }
+
+    const sample = sampleTour(tour, time);
+    if (!sample) return;
+    cameraApiRef.current?.setState(sample.camera);
+    liveConfigRef.current = sample.config;
+
+    if (sample.index !== lastIndexRef.current) {
+      lastIndexRef.current = sample.index;
+      onSample(sample);
+    }
+  });
+
+  return null;
+};
+
+export default TourPlayer;
@@ -0,0 +1,250 @@
+import { AudioData } from "../types";
+
+// Turns AnalyserNode spectra into smoothed AudioData for the particle shader:
+//  - bands are defined in Hz and mapped onto FFT bins using the context's real sample rate
+//  - each band follows an attack/release envelope and is normalised by a slowly decaying peak (auto-gain)
+//  - onsets are detected from spectral flux against an adaptive threshold; their spacing gives a BPM estimate
+
+export type BandId = 'low' | 'mid' | 'high';
+
+export interface AnalysisSettings {
+  bands: Record<BandId, [number, number]>; // [minHz, maxHz)
+  attack: number;          // seconds to rise towards a louder level
+  release: number;         // seconds to fall towards a quieter level
+  autoGain: boolean;
+  beatSensitivity: number; // Threshold in standard deviations of recent flux (lower = more beats)
+}
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  bands: {
+    low: [20, 250],
+    mid: [250, 4000],
+    high: [4000, 16000]
+  },
+  attack: 0.03,
+  release: 0.25,
+  autoGain: true,
+  beatSensitivity: 1.5
+};
+
+const SETTINGS_KEY = 'artparticle3d:audioAnalysis';
+
+export const SILENT_AUDIO: AudioData = { low: 0, mid: 0, high: 0, beat: 0, energy: 0, bpm: 0 };
+
+const BAND_IDS: BandId[] = ['low', 'mid', 'high'];
+
+const PEAK_DECAY_SECONDS = 6;     // Auto-gain forgets a loud passage over this long
+const MIN_PEAK = 0.08;            // Keeps near-silence from being amplified to full scale
+const FLUX_HISTORY_SECONDS = 1.5;
+const MIN_FLUX = 0.002;           // Ignore onsets in near-silence
+const MIN_BEAT_INTERVAL = 0.25;   // Seconds; caps detection at 240 BPM
+const BEAT_DECAY_SECONDS = 0.15;  // How long the `beat` pulse takes to fade
+const BPM_WINDOW_SECONDS = 8;
+const BPM_RANGE: [number, number] = [60, 180];
+
+// --- Settings Persistence ---
+
+const isRange = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(v => typeof v === 'number' && Number.isFinite(v)) && value[0] < value[1];
+
+// Saved settings merged over the defaults; malformed fields fall back to the default
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_ANALYSIS_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<AnalysisSettings>;
+    const num = (value: unknown, fallback: number) => (typeof value === 'number' && value >= 0 ? value : fallback);
+
+    return {
+      bands: {
+        low: isRange(saved.bands?.low) ? saved.bands!.low : DEFAULT_ANALYSIS_SETTINGS.bands.low,
+        mid: isRange(saved.bands?.mid) ? saved.bands!.mid : DEFAULT_ANALYSIS_SETTINGS.bands.mid,
+        high: isRange(saved.bands?.high) ? saved.bands!.high : DEFAULT_ANALYSIS_SETTINGS.bands.high
+      },
+      attack: num(saved.attack, DEFAULT_ANALYSIS_SETTINGS.attack),
+      release: num(saved.release, DEFAULT_ANALYSIS_SETTINGS.release),
+      autoGain: typeof saved.autoGain === 'boolean' ? saved.autoGain : DEFAULT_ANALYSIS_SETTINGS.autoGain,
+      beatSensitivity: num(saved.beatSensitivity, DEFAULT_ANALYSIS_SETTINGS.beatSensitivity)
+    };
+  } catch (err) {
+    console.warn(`Ignoring unreadable localStorage entry "${SETTINGS_KEY}"`, err);
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn(`Failed to persist "${SETTINGS_KEY}"`, err);
+  }
+};
+
+// --- Analysis ---
+
+// Frequency in Hz -> FFT bin index for an analyser
+const binForHz = (hz: number, sampleRate: number, binCount: number) =>
+  Math.round((hz / (sampleRate / 2)) * binCount);
+
+// Exponential smoothing factor for a time constant, frame-rate independent
+const smoothing = (dt: number, tau: number) => (tau <= 0 ? 1 : 1 - Math.exp(-dt / tau));
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Fold an inter-onset interval into the BPM range (half / double time)
+const intervalToBpm = (interval: number) => {
+  let bpm = 60 / interval;
+  while (bpm < BPM_RANGE[0]) bpm *= 2;
+  while (bpm > BPM_RANGE[1]) bpm /= 2;
+  return bpm;
+};
+
+export interface AudioAnalyzer {
+  // Analyse the analyser's current spectrum; `time` in seconds (e.g. performance.now() / 1000)
+  process: (analyser: AnalyserNode, time: number) => AudioData;
+  // Let every value fall back to silence while no source is playing
+  decay: (time: number) => AudioData;
+  setSettings: (settings: AnalysisSettings) => void;
+  reset: () => void;
+}
+
+export const createAudioAnalyzer = (initial: AnalysisSettings = DEFAULT_ANALYSIS_SETTINGS): AudioAnalyzer => {
+  let settings = initial;
+  let spectrum = new Uint8Array(0);
+  let previousSpectrum = new Float32Array(0);
+
+  let lastTime: number | null = null;
+  let output: AudioData = { ...SILENT_AUDIO };
+  const peaks: Record<BandId | 'energy', number> = { low: MIN_PEAK, mid: MIN_PEAK, high: MIN_PEAK, energy: MIN_PEAK };
+
+  let fluxHistory: { time: number; flux: number }[] = [];
+  let onsets: number[] = [];
+  let lastOnset = -Infinity;
+
+  const reset = () => {
+    lastTime = null;
+    output = { ...SILENT_AUDIO };
+    (Object.keys(peaks) as (keyof typeof peaks)[]).forEach(key => (peaks[key] = MIN_PEAK));
+    previousSpectrum = new Float32Array(0);
+    fluxHistory = [];
+    onsets = [];
+    lastOnset = -Infinity;
+  };
+
+  const step = (time: number) => {
+    const dt = lastTime === null ? 1 / 60 : Math.min(0.1, Math.max(0, time - lastTime));
+    lastTime = time;
+    return dt;
+  };
+
+  // Attack/release envelope towards `target`
+  const follow = (current: number, target: number, dt: number) =>
+    current + (target - current) * smoothing(dt, target > current ? settings.attack : settings.release);
+
+  // Normalise by a decaying running peak
+  const normalise = (key: keyof typeof peaks, value: number, dt: number) => {
+    if (!settings.autoGain) return value;
+    peaks[key] = Math.max(value, MIN_PEAK, peaks[key] * Math.exp(-dt / PEAK_DECAY_SECONDS));
+    return Math.min(1, value / peaks[key]);
+  };
+
+  const detectBeat = (flux: number, time: number): boolean => {
+    fluxHistory.push({ time, flux });
+    fluxHistory = fluxHistory.filter(entry => time - entry.time <= FLUX_HISTORY_SECONDS);
+    if (fluxHistory.length < 10) return false;
+
+    const mean = fluxHistory.reduce((sum, entry) => sum + entry.flux, 0) / fluxHistory.length;
+    const variance = fluxHistory.reduce((sum, entry) => sum + (entry.flux - mean) ** 2, 0) / fluxHistory.length;
+    const threshold = mean + settings.beatSensitivity * Math.sqrt(variance);
+
+    if (flux <= threshold || flux < MIN_FLUX || time - lastOnset < MIN_BEAT_INTERVAL) return false;
+    lastOnset = time;
+    return true;
+  };
+
+  const estimateBpm = (time: number): number => {
+    onsets = onsets.filter(onset => time - onset <= BPM_WINDOW_SECONDS);
+    if (onsets.length < 4) return 0;
+
+    const intervals = onsets.slice(1).map((onset, i) => intervalToBpm(onset - onsets[i]));
+    return median(intervals);
+  };
+
+  const process = (analyser: AnalyserNode, time: number): AudioData => {
+    const dt = step(time);
+    const binCount = analyser.frequencyBinCount;
+    if (spectrum.length !== binCount) spectrum = new Uint8Array(binCount);
+    analyser.getByteFrequencyData(spectrum);
+
+    const sampleRate = analyser.context.sampleRate;
+    const next: AudioData = { ...output };
+
+    // --- Bands ---
+    for (const id of BAND_IDS) {
+      const [minHz, maxHz] = settings.bands[id];
+      const start = Math.min(binCount - 1, Math.max(0, binForHz(minHz, sampleRate, binCount)));
+      const end = Math.min(binCount, Math.max(start + 1, binForHz(maxHz, sampleRate, binCount)));
+
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += spectrum[i];
+      const raw = sum / (end - start) / 255;
+
+      next[id] = follow(output[id], normalise(id, raw, dt), dt);
+    }
+
+    // --- Energy & spectral flux ---
+    if (previousSpectrum.length !== binCount) previousSpectrum = new Float32Array(binCount);
+    let energySum = 0;
+    let flux = 0;
+    for (let i = 0; i < binCount; i++) {
+      const value = spectrum[i] / 255;
+      energySum += value * value;
+      // Only rising bins count as an onset
+      flux += Math.max(0, value - previousSpectrum[i]);
+      previousSpectrum[i] = value;
+    }
+    const energy = Math.sqrt(energySum / binCount);
+    next.energy = follow(output.energy, normalise('energy', energy, dt), dt);
+
+    // --- Beat & BPM ---
+    if (detectBeat(flux / binCount, time)) {
+      onsets.push(time);
+      next.beat = 1;
+    } else {
+      next.beat = output.beat * Math.exp(-dt / BEAT_DECAY_SECONDS);
+    }
+
+    const bpm = estimateBpm(time);
+    next.bpm = bpm && output.bpm ? output.bpm + (bpm - output.bpm) * 0.1 : bpm;
+
+    output = next;
+    return output;
+  };
+
+  const decay = (time: number): AudioData => {
+    const dt = step(time);
+    const factor = Math.exp(-dt / Math.max(settings.release, 0.05));
+    output = {
+      low: output.low * factor,
+      mid: output.mid * factor,
+      high: output.high * factor,
+      beat: output.beat * factor,
+      energy: output.energy * factor,
+      bpm: output.bpm
+    };
+    return output;
+  };
+
+  return {
+    process,
+    decay,
+    setSettings: (next) => {
+      settings = next;
+    },
+    reset
+  };
+};
@@ -0,0 +1,79 @@
+// Web Audio graph behind the visualizer. Every source (an <audio> element playing the
+// playlist, or a microphone / line-in stream) feeds one AnalyserNode, which the
+// AudioPlayer reads into AudioData. Switching sources closes the whole graph so no
+// AudioContext or capture stream outlives the source that created it.
+
+export interface AudioGraph {
+  context: AudioContext;
+  analyser: AnalyserNode;
+  recordingStream: MediaStream; // Analyser output, for the video recorder
+  source: AudioNode | null;
+  captureStream: MediaStream | null; // getUserMedia stream to stop on teardown
+}
+
+// 2048 bins over ~22kHz gives ~21Hz resolution, enough to separate the bass band
+const FFT_SIZE = 2048;
+
+export const isMicrophoneSupported = (): boolean =>
+  typeof navigator !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+
+export const createAudioGraph = (): AudioGraph => {
+  // Fix for Safari which needs webkitAudioContext
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const context: AudioContext = new AudioContextClass();
+
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  // Light smoothing only; services/audioAnalysis applies its own attack/release envelope
+  analyser.smoothingTimeConstant = 0.3;
+
+  // Tap the analyser output for the video recorder
+  const recordingTap = context.createMediaStreamDestination();
+  analyser.connect(recordingTap);
+
+  return { context, analyser, recordingStream: recordingTap.stream, source: null, captureStream: null };
+};
+
+// Play an <audio> element through the analyser to the speakers.
+// Note: an element can only ever be bound to one graph, so remount it per graph.
+export const attachMediaElement = (graph: AudioGraph, element: HTMLMediaElement) => {
+  const source = graph.context.createMediaElementSource(element);
+  source.connect(graph.analyser);
+  graph.analyser.connect(graph.context.destination);
+  graph.source = source;
+};
+
+// Analyse a microphone / line-in device. It is not routed to the speakers to avoid feedback.
+export const attachMicrophone = async (graph: AudioGraph, deviceId?: string): Promise<void> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      // Raw signal: voice processing flattens music dynamics
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false
+    }
+  });
+
+  const source = graph.context.createMediaStreamSource(stream);
+  source.connect(graph.analyser);
+  graph.source = source;
+  graph.captureStream = stream;
+};
+
+// Audio inputs; labels are only filled in after microphone permission was granted
+export const listAudioInputs = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+};
+
+export const closeAudioGraph = (graph: AudioGraph) => {
+  graph.source?.disconnect();
+  graph.analyser.disconnect();
+  graph.captureStream?.getTracks().forEach(track => track.stop());
+  graph.recordingStream.getTracks().forEach(track => track.stop());
+  if (graph.context.state !== 'closed') {
+    graph.context.close().catch(err => console.warn("Failed to close AudioContext", err));
+  }
+};
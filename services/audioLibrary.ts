@@ -0,0 +1,149 @@
+import { Track } from "../types";
+import { isIndexedDbAvailable, requestToPromise, STORES, withStores } from "./indexedDb";
+
+// Audio tracks for the AudioPlayer: built-in Wikimedia recordings plus audio files
+// dropped in by the user. User files are stored as Blobs in IndexedDB and played
+// through object URLs; the playlist (which tracks, in which order) lives in localStorage.
+
+const PLAYLIST_KEY = 'artparticle3d:playlist';
+
+interface StoredAudioFile {
+  id: string;
+  title: string;
+  artist: string;
+  blob: Blob;
+  addedAt: number;
+}
+
+// Using both MP3 and OGG for maximum browser compatibility
+export const BUILT_IN_TRACKS: Track[] = [
+  {
+    id: 'builtin-gymnopedie',
+    title: "Gymnopédie No. 1",
+    artist: "Erik Satie",
+    sources: [
+        { url: "https://upload.wikimedia.org/wikipedia/commons/transcoded/3/35/Gymnopedie_No_1.ogg/Gymnopedie_No_1.ogg.mp3", type: "audio/mpeg" },
+        { url: "https://upload.wikimedia.org/wikipedia/commons/3/35/Gymnopedie_No_1.ogg", type: "audio/ogg" }
+    ]
+  },
+  {
+    id: 'builtin-clair-de-lune',
+    title: "Clair de Lune",
+    artist: "Claude Debussy",
+    sources: [
+        { url: "https://upload.wikimedia.org/wikipedia/commons/transcoded/2/2f/Clair_de_lune_%28Debussy%29_Suite_bergamasque.ogg/Clair_de_lune_%28Debussy%29_Suite_bergamasque.ogg.mp3", type: "audio/mpeg" },
+        { url: "https://upload.wikimedia.org/wikipedia/commons/2/2f/Clair_de_lune_%28Debussy%29_Suite_bergamasque.ogg", type: "audio/ogg" }
+    ]
+  },
+  {
+    id: 'builtin-moonlight',
+    title: "Moonlight Sonata",
+    artist: "Ludwig van Beethoven",
+    sources: [
+        { url: "https://upload.wikimedia.org/wikipedia/commons/transcoded/e/eb/Beethoven_Moonlight_1st_movement.ogg/Beethoven_Moonlight_1st_movement.ogg.mp3", type: "audio/mpeg" },
+        { url: "https://upload.wikimedia.org/wikipedia/commons/e/eb/Beethoven_Moonlight_1st_movement.ogg", type: "audio/ogg" }
+    ]
+  }
+];
+
+const toTrack = ({ id, title, artist, blob }: StoredAudioFile): Track => ({
+  id,
+  title,
+  artist,
+  sources: [{ url: URL.createObjectURL(blob), type: blob.type }],
+  userFile: true
+});
+
+// Free the object URL behind a user track once it is no longer playable
+export const releaseTrack = (track: Track) => {
+  if (track.userFile) track.sources.forEach(source => URL.revokeObjectURL(source.url));
+};
+
+// --- User Files ---
+
+export const loadUserTracks = async (): Promise<Track[]> => {
+  if (!isIndexedDbAvailable()) return [];
+  try {
+    const files = await withStores(STORES.audioFiles, 'readonly', tx =>
+      requestToPromise(tx.objectStore(STORES.audioFiles).getAll() as IDBRequest<StoredAudioFile[]>)
+    );
+    return files.sort((a, b) => a.addedAt - b.addedAt).map(toTrack);
+  } catch (err) {
+    console.warn("Failed to load saved audio files", err);
+    return [];
+  }
+};
+
+// Store audio files and return them as playable tracks. Non-audio files are skipped.
+// `artist` labels the tracks (localized by the caller).
+export const addAudioFiles = async (files: File[], artist: string): Promise<Track[]> => {
+  const stored: StoredAudioFile[] = files
+    .filter(file => file.type.startsWith('audio/'))
+    .map((file, i) => ({
+      id: `user-audio-${Date.now()}-${i}`,
+      title: file.name.replace(/\.[^.]+$/, ''),
+      artist,
+      blob: file,
+      addedAt: Date.now() + i
+    }));
+
+  if (stored.length && isIndexedDbAvailable()) {
+    try {
+      await withStores(STORES.audioFiles, 'readwrite', tx => {
+        const store = tx.objectStore(STORES.audioFiles);
+        stored.forEach(file => store.put(file));
+      });
+    } catch (err) {
+      // Still playable for this session
+      console.warn("Failed to persist audio files", err);
+    }
+  }
+
+  return stored.map(toTrack);
+};
+
+export const deleteUserTrack = async (id: string): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await withStores(STORES.audioFiles, 'readwrite', tx => {
+      tx.objectStore(STORES.audioFiles).delete(id);
+    });
+  } catch (err) {
+    console.warn("Failed to delete audio file", err);
+  }
+};
+
+// --- Playlist ---
+
+// Track ids in play order; null until the user edits the playlist
+const loadPlaylistOrder = (): string[] | null => {
+  try {
+    const raw = localStorage.getItem(PLAYLIST_KEY);
+    const ids = raw ? JSON.parse(raw) : null;
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : null;
+  } catch (err) {
+    console.warn(`Ignoring unreadable localStorage entry "${PLAYLIST_KEY}"`, err);
+    return null;
+  }
+};
+
+export const savePlaylistOrder = (tracks: Track[]) => {
+  try {
+    localStorage.setItem(PLAYLIST_KEY, JSON.stringify(tracks.map(track => track.id)));
+  } catch (err) {
+    console.warn(`Failed to persist "${PLAYLIST_KEY}"`, err);
+  }
+};
+
+// Built-in and user tracks arranged by the saved playlist order
+export const loadPlaylist = async (): Promise<Track[]> => {
+  const available = [...BUILT_IN_TRACKS, ...(await loadUserTracks())];
+  const order = loadPlaylistOrder();
+  if (!order) return available;
+
+  const byId = new Map(available.map(track => [track.id, track] as const));
+  const playlist = order.flatMap(id => (byId.has(id) ? [byId.get(id)!] : []));
+  // Release user tracks that were dropped from the playlist but still stored
+  available.filter(track => !order.includes(track.id)).forEach(releaseTrack);
+  return playlist;
+};
@@ -0,0 +1,165 @@
+import { AudioData, AudioModCurve, AudioModSource, AudioModTarget, AudioRoute } from "../types";
+import { MessageKey } from "./i18n";
+
+// Audio modulation matrix: each route maps one AudioData value through a curve,
+// gain and offset onto a particle parameter. Routes are packed into shader uniforms
+// (see ParticleSystem); evaluateAudioRoutes is the CPU mirror used by exports.
+//
+// How the summed modulation m of each target is applied:
+//   depth       z      *= 1 + m
+//   wave        amp     = 1.5 + m
+//   dispersion  spread += m
+//   brightness  color  *= 1 + m
+//   size        size   *= 1 + m
+
+export const MAX_AUDIO_ROUTES = 8;
+
+// Index order is part of the shader contract
+export const AUDIO_MOD_SOURCES: { id: AudioModSource; label: MessageKey }[] = [
+  { id: 'low', label: 'audio.bandLow' },
+  { id: 'mid', label: 'audio.bandMid' },
+  { id: 'high', label: 'audio.bandHigh' },
+  { id: 'beat', label: 'routing.beat' },
+  { id: 'energy', label: 'routing.energy' }
+];
+
+export const AUDIO_MOD_TARGETS: { id: AudioModTarget; label: MessageKey }[] = [
+  { id: 'depth', label: 'controls.depth' },
+  { id: 'wave', label: 'routing.wave' },
+  { id: 'dispersion', label: 'controls.dispersion' },
+  { id: 'brightness', label: 'controls.brightness' },
+  { id: 'size', label: 'controls.size' }
+];
+
+export const AUDIO_MOD_CURVES: { id: AudioModCurve; label: MessageKey }[] = [
+  { id: 'linear', label: 'routing.linear' },
+  { id: 'easeIn', label: 'routing.easeIn' },
+  { id: 'easeOut', label: 'routing.easeOut' },
+  { id: 'smooth', label: 'routing.smooth' },
+  { id: 'inverted', label: 'routing.inverted' }
+];
+
+export const ROUTE_RANGES = {
+  gain: { min: -20, max: 20, step: 0.1 },
+  offset: { min: -10, max: 10, step: 0.1 }
+};
+
+// Reproduces the original hardwired reactions
+export const DEFAULT_AUDIO_ROUTES: AudioRoute[] = [
+  { source: 'low', target: 'depth', gain: 0.5, offset: 0, curve: 'linear' },
+  { source: 'low', target: 'wave', gain: 8, offset: 0, curve: 'linear' },
+  { source: 'high', target: 'dispersion', gain: 5, offset: 0, curve: 'linear' },
+  { source: 'mid', target: 'brightness', gain: 1.5, offset: 0, curve: 'linear' },
+  { source: 'beat', target: 'brightness', gain: 0.5, offset: 0, curve: 'linear' },
+  { source: 'beat', target: 'size', gain: 0.3, offset: 0, curve: 'linear' }
+];
+
+const sourceIndex = (id: AudioModSource) => AUDIO_MOD_SOURCES.findIndex(s => s.id === id);
+const targetIndex = (id: AudioModTarget) => AUDIO_MOD_TARGETS.findIndex(t => t.id === id);
+const curveIndex = (id: AudioModCurve) => AUDIO_MOD_CURVES.findIndex(c => c.id === id);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const applyCurve = (curve: AudioModCurve, x: number): number => {
+  switch (curve) {
+    case 'easeIn': return x * x;
+    case 'easeOut': return Math.sqrt(x);
+    case 'smooth': return x * x * (3 - 2 * x);
+    case 'inverted': return 1 - x;
+    default: return x;
+  }
+};
+
+// Summed modulation per target for the given audio frame
+export const evaluateAudioRoutes = (routes: AudioRoute[], audio: AudioData): Record<AudioModTarget, number> => {
+  const mods: Record<AudioModTarget, number> = { depth: 0, wave: 0, dispersion: 0, brightness: 0, size: 0 };
+  routes.slice(0, MAX_AUDIO_ROUTES).forEach(({ source, target, gain, offset, curve }) => {
+    mods[target] += applyCurve(curve, clamp(audio[source], 0, 1)) * gain + offset;
+  });
+  return mods;
+};
+
+export interface PackedAudioRoutes {
+  routes: Float32Array; // vec4 per route: (source, target, gain, offset)
+  curves: Float32Array;
+  count: number;
+}
+
+export const createPackedAudioRoutes = (): PackedAudioRoutes => ({
+  routes: new Float32Array(MAX_AUDIO_ROUTES * 4),
+  curves: new Float32Array(MAX_AUDIO_ROUTES),
+  count: 0
+});
+
+// Write routes into uniform arrays in place
+export const packAudioRoutes = (routes: AudioRoute[], into: PackedAudioRoutes): PackedAudioRoutes => {
+  const active = routes.slice(0, MAX_AUDIO_ROUTES);
+  into.routes.fill(0);
+  into.curves.fill(0);
+  active.forEach((route, i) => {
+    into.routes.set([sourceIndex(route.source), targetIndex(route.target), route.gain, route.offset], i * 4);
+    into.curves[i] = curveIndex(route.curve);
+  });
+  into.count = active.length;
+  return into;
+};
+
+// --- Validation ---
+
+export const clampAudioRoute = (route: AudioRoute): AudioRoute => ({
+  ...route,
+  gain: clamp(route.gain, ROUTE_RANGES.gain.min, ROUTE_RANGES.gain.max),
+  offset: clamp(route.offset, ROUTE_RANGES.offset.min, ROUTE_RANGES.offset.max)
+});
+
+// Validate an unknown value as a route list. Throws with a readable message naming the offending field.
+export const parseAudioRoutes = (value: unknown, path = 'audioRoutes'): AudioRoute[] => {
+  if (!Array.isArray(value)) throw new Error(`${path} must be an array`);
+  if (value.length > MAX_AUDIO_ROUTES) throw new Error(`${path} may contain at most ${MAX_AUDIO_ROUTES} routes`);
+
+  return value.map((entry, i) => {
+    const at = `${path}[${i}]`;
+    if (typeof entry !== 'object' || entry === null) throw new Error(`${at} must be an object`);
+    const { source, target, gain, offset, curve } = entry as Record<string, unknown>;
+
+    if (sourceIndex(source as AudioModSource) < 0) {
+      throw new Error(`${at}.source must be one of ${AUDIO_MOD_SOURCES.map(s => s.id).join(', ')}`);
+    }
+    if (targetIndex(target as AudioModTarget) < 0) {
+      throw new Error(`${at}.target must be one of ${AUDIO_MOD_TARGETS.map(t => t.id).join(', ')}`);
+    }
+    if (curveIndex(curve as AudioModCurve) < 0) {
+      throw new Error(`${at}.curve must be one of ${AUDIO_MOD_CURVES.map(c => c.id).join(', ')}`);
+    }
+    (['gain', 'offset'] as const).forEach((key) => {
+      const field = key === 'gain' ? gain : offset;
+      const { min, max } = ROUTE_RANGES[key];
+      if (typeof field !== 'number' || !Number.isFinite(field) || field < min || field > max) {
+        throw new Error(`${at}.${key} must be a number between ${min} and ${max}`);
+      }
+    });
+
+    return {
+      source: source as AudioModSource,
+      target: target as AudioModTarget,
+      gain: gain as number,
+      offset: offset as number,
+      curve: curve as AudioModCurve
+    };
+  });
+};
+
+// Compact form for URLs: "low:depth:0.5:0:linear,..."
+export const encodeAudioRoutes = (routes: AudioRoute[]): string =>
+  routes
+    .map(r => [r.source, r.target, Number(r.gain.toFixed(3)), Number(r.offset.toFixed(3)), r.curve].join(':'))
+    .join(',');
+
+export const decodeAudioRoutes = (value: string): AudioRoute[] => {
+  if (!value) return [];
+  const routes = value.split(',').map((part) => {
+    const [source, target, gain, offset, curve] = part.split(':');
+    return { source, target, gain: Number(gain), offset: Number(offset), curve };
+  });
+  return parseAudioRoutes(routes, 'routes');
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { BrushStroke, createBrushField, stepBrushField } from "./brush";
+
+// A row of particles at x = 0, 10, 20, ... 90 (y = z = 0)
+const ROW = 10;
+const positions = new Float32Array(ROW * 3);
+for (let i = 0; i < ROW; i++) positions[i * 3] = i * 10;
+
+const stroke = (overrides: Partial<BrushStroke> = {}): BrushStroke => ({
+  mode: 'repel',
+  x: 0,
+  y: 0,
+  motionX: 0,
+  motionY: 0,
+  radius: 15,
+  strength: 6,
+  ...overrides
+});
+
+const offsetX = (field: ReturnType<typeof createBrushField>, i: number) => field.offsets[i * 4];
+
+const run = (field: ReturnType<typeof createBrushField>, brush: BrushStroke | null, seconds: number) => {
+  for (let t = 0; t < seconds; t += 1 / 60) stepBrushField(field, positions, brush, 1 / 60);
+};
+
+describe("brush field", () => {
+  it("only simulates particles within the brush", () => {
+    const field = createBrushField(ROW);
+    const changed = stepBrushField(field, positions, stroke({ x: 1 }), 1 / 60);
+
+    expect(field.movingCount).toBe(2); // x = 0 and x = 10
+    expect(changed).toEqual({ first: 0, last: 1 });
+    expect(offsetX(field, 5)).toBe(0);
+  });
+
+  it("pushes particles away from a repel brush", () => {
+    const field = createBrushField(ROW);
+    run(field, stroke({ x: 5 }), 1);
+
+    expect(offsetX(field, 0)).toBeLessThan(0);
+    expect(offsetX(field, 1)).toBeGreaterThan(0);
+    expect(field.offsets[2]).toBeGreaterThan(0); // Lifted towards the viewer
+  });
+
+  it("springs every particle back home on its own once the brush leaves", () => {
+    const field = createBrushField(ROW);
+    run(field, stroke({ x: 0 }), 0.5);
+    run(field, stroke({ x: 45 }), 0.15); // Particles 0 and 1 were left behind mid-swing
+    const settling = offsetX(field, 1);
+    const freshlyPushed = offsetX(field, 4);
+
+    expect(Math.abs(settling)).toBeGreaterThan(0);
+    expect(Math.abs(freshlyPushed)).toBeGreaterThan(0);
+    expect(field.velocities[1 * 3]).not.toBe(field.velocities[4 * 3]);
+
+    run(field, null, 3);
+    expect(field.movingCount).toBe(0);
+    expect(Array.from(field.offsets).every(v => v === 0)).toBe(true);
+    expect(stepBrushField(field, positions, null, 1 / 60)).toBeNull();
+  });
+
+  it("overshoots home before settling", () => {
+    const field = createBrushField(ROW);
+    run(field, stroke({ x: 5 }), 1);
+    let lowest = Infinity;
+    for (let t = 0; t < 1; t += 1 / 60) {
+      stepBrushField(field, positions, null, 1 / 60);
+      lowest = Math.min(lowest, offsetX(field, 1));
+    }
+    expect(lowest).toBeLessThan(0);
+  });
+
+  it("tints particles ahead of a smear stroke and fades the tint afterwards", () => {
+    const field = createBrushField(ROW);
+    run(field, stroke({ mode: 'smear', x: 5, motionX: 1 }), 0.5);
+    const ahead = field.offsets[1 * 4 + 3];
+    const behind = field.offsets[0 * 4 + 3];
+
+    expect(ahead).toBeGreaterThan(behind);
+    expect(offsetX(field, 1)).toBeGreaterThan(0); // Dragged along the stroke
+
+    run(field, null, 4);
+    expect(field.offsets[1 * 4 + 3]).toBe(0);
+  });
+});
@@ -0,0 +1,317 @@
+import { BrushMode, BrushSettings } from "../types";
+import { NumericRange } from "./configSchema";
+
+// Pointer brushes: ParticleSystem raycasts the pointer onto the painting plane and
+// steps a BrushField, a per-particle simulation on the CPU. Each particle under the
+// brush is pulled towards the offset the brush mode asks for (pushed away, pulled in,
+// swirled or smeared) by its own damped spring, and springs back home with its own
+// momentum once the brush has passed. Only particles away from home are simulated;
+// their offsets reach the vertex shader as the aBrushOffset attribute. The smear brush
+// also picks up the painting's colour where the stroke comes from (a coarse colour
+// grid, see createColorGrid) and tints the particles ahead of the stroke with it.
+// Brushes are a view-only overlay and are not part of exports.
+
+// Brush panel order
+export const BRUSH_MODES: BrushMode[] = ['off', 'repel', 'attract', 'vortex', 'smear'];
+
+export const BRUSH_RANGES: Record<'radius' | 'strength', NumericRange> = {
+  radius: { min: 2, max: 40, step: 1 },
+  strength: { min: 1, max: 20, step: 0.5 }
+};
+
+export const DEFAULT_BRUSH: BrushSettings = {
+  mode: 'off',
+  radius: 12,
+  strength: 6
+};
+
+// Pointer speed (world units / s) at which the smear brush drags at full strength
+export const SMEAR_FULL_SPEED = 120;
+
+// Underdamped (damping ratio ~0.55): a little overshoot before settling
+const SPRING_STIFFNESS = 120;
+const SPRING_DAMPING = 12;
+// Longer frames (tab switches, offline recording hiccups) are split so the spring stays stable
+const MAX_SPRING_STEP = 1 / 60;
+// After a longer pause the field just resumes instead of replaying the missed time
+const MAX_FIELD_STEP = 0.25;
+
+export interface Spring {
+  value: number;
+  velocity: number;
+}
+
+export const createSpring = (value = 0): Spring => ({ value, velocity: 0 });
+
+// Advance a spring towards `target` by dt seconds (semi-implicit Euler)
+export const stepSpring = (spring: Spring, target: number, dt: number) => {
+  for (let remaining = dt; remaining > 0; remaining -= MAX_SPRING_STEP) {
+    const step = Math.min(remaining, MAX_SPRING_STEP);
+    const acceleration = SPRING_STIFFNESS * (target - spring.value) - SPRING_DAMPING * spring.velocity;
+    spring.velocity += acceleration * step;
+    spring.value += spring.velocity * step;
+  }
+};
+
+// --- Per-particle Field ---
+
+// How quickly particles take on the smear colour, and lose it again once the brush has passed (1/s)
+const TINT_PICKUP_SPEED = 6;
+const TINT_FADE_SPEED = 1.5;
+const MAX_TINT = 0.85;
+// Offsets (world units), speeds and tints below this count as settled
+const SETTLE_EPSILON = 0.005;
+const GRID_CELLS = 64; // Spatial grid cells along the longer cloud side
+
+// Particles bucketed by home position (counting sort), to find the ones under the brush
+interface SpatialGrid {
+  minX: number;
+  minY: number;
+  cellSize: number;
+  cols: number;
+  rows: number;
+  cellStart: Int32Array; // Cell c holds indices[cellStart[c] .. cellStart[c + 1])
+  indices: Int32Array;
+}
+
+export interface BrushField {
+  count: number;
+  offsets: Float32Array;    // (x, y, z, smear tint) per particle; the aBrushOffset attribute
+  velocities: Float32Array; // (x, y, z) per particle
+  moving: Int32Array;       // Particles away from home, in moving[0 .. movingCount)
+  movingCount: number;
+  isMoving: Uint8Array;
+  grid: SpatialGrid | null; // Built on the first stroke
+}
+
+// The pointer as the field sees it (cloud space)
+export interface BrushStroke {
+  mode: BrushMode;
+  x: number;
+  y: number;
+  motionX: number; // Smoothed pointer velocity, length 1 = SMEAR_FULL_SPEED
+  motionY: number;
+  radius: number;
+  strength: number;
+}
+
+export const createBrushField = (count: number): BrushField => ({
+  count,
+  offsets: new Float32Array(count * 4),
+  velocities: new Float32Array(count * 3),
+  moving: new Int32Array(count),
+  movingCount: 0,
+  isMoving: new Uint8Array(count),
+  grid: null
+});
+
+const buildGrid = (positions: Float32Array, count: number): SpatialGrid => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < count; i++) {
+    minX = Math.min(minX, positions[i * 3]);
+    maxX = Math.max(maxX, positions[i * 3]);
+    minY = Math.min(minY, positions[i * 3 + 1]);
+    maxY = Math.max(maxY, positions[i * 3 + 1]);
+  }
+  if (count === 0) minX = minY = maxX = maxY = 0;
+
+  const cellSize = Math.max((Math.max(maxX - minX, maxY - minY) || 1) / GRID_CELLS, 1e-4);
+  const cols = Math.floor((maxX - minX) / cellSize) + 1;
+  const rows = Math.floor((maxY - minY) / cellSize) + 1;
+  const cellOf = (i: number) =>
+    Math.floor((positions[i * 3 + 1] - minY) / cellSize) * cols + Math.floor((positions[i * 3] - minX) / cellSize);
+
+  const cellStart = new Int32Array(cols * rows + 1);
+  for (let i = 0; i < count; i++) cellStart[cellOf(i) + 1]++;
+  for (let c = 0; c < cols * rows; c++) cellStart[c + 1] += cellStart[c];
+
+  const fill = cellStart.slice(0, cols * rows);
+  const indices = new Int32Array(count);
+  for (let i = 0; i < count; i++) indices[fill[cellOf(i)]++] = i;
+
+  return { minX, minY, cellSize, cols, rows, cellStart, indices };
+};
+
+// Start simulating the particles whose home lies within the brush
+const collectTouched = (field: BrushField, positions: Float32Array, stroke: BrushStroke) => {
+  const grid = (field.grid ??= buildGrid(positions, field.count));
+  const { minX, minY, cellSize, cols, rows, cellStart, indices } = grid;
+  const col0 = Math.max(0, Math.floor((stroke.x - stroke.radius - minX) / cellSize));
+  const col1 = Math.min(cols - 1, Math.floor((stroke.x + stroke.radius - minX) / cellSize));
+  const row0 = Math.max(0, Math.floor((stroke.y - stroke.radius - minY) / cellSize));
+  const row1 = Math.min(rows - 1, Math.floor((stroke.y + stroke.radius - minY) / cellSize));
+
+  for (let row = row0; row <= row1; row++) {
+    for (let col = col0; col <= col1; col++) {
+      const cell = row * cols + col;
+      for (let n = cellStart[cell]; n < cellStart[cell + 1]; n++) {
+        const i = indices[n];
+        if (field.isMoving[i]) continue;
+        const dx = positions[i * 3] - stroke.x;
+        const dy = positions[i * 3 + 1] - stroke.y;
+        if (dx * dx + dy * dy >= stroke.radius * stroke.radius) continue;
+        field.isMoving[i] = 1;
+        field.moving[field.movingCount++] = i;
+      }
+    }
+  }
+};
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Offset (x, y, z) and smear tint the brush pulls a particle at home (hx, hy) towards
+const strokeTarget = (stroke: BrushStroke, hx: number, hy: number, out: Float32Array) => {
+  out.fill(0);
+  const dx = hx - stroke.x;
+  const dy = hy - stroke.y;
+  const dist = Math.hypot(dx, dy);
+  if (dist >= stroke.radius) return;
+
+  const falloff = 1 - smoothstep(0, stroke.radius, dist);
+  const push = falloff * stroke.strength;
+  const dirX = dist > 1e-4 ? dx / dist : 0;
+  const dirY = dist > 1e-4 ? dy / dist : 0;
+
+  switch (stroke.mode) {
+    case 'repel': // Bulging towards the viewer
+      out[0] = dirX * push;
+      out[1] = dirY * push;
+      out[2] = push * 0.5;
+      break;
+    case 'attract': { // Never past the pointer
+      const pull = Math.min(push, dist);
+      out[0] = -dirX * pull;
+      out[1] = -dirY * pull;
+      break;
+    }
+    case 'vortex':
+      out[0] = -dirY * push;
+      out[1] = dirX * push;
+      break;
+    case 'smear': {
+      out[0] = stroke.motionX * push;
+      out[1] = stroke.motionY * push;
+      // Most colour ahead of the stroke
+      const speed = Math.hypot(stroke.motionX, stroke.motionY);
+      if (speed > 1e-3) {
+        const ahead = dist > 1e-4 ? 0.5 + 0.5 * (dirX * stroke.motionX + dirY * stroke.motionY) / speed : 1;
+        out[3] = Math.min(MAX_TINT, falloff * ahead * speed);
+      }
+      break;
+    }
+  }
+};
+
+const strokeOffset = new Float32Array(4); // Scratch for strokeTarget
+
+// Advance every moving particle by dt seconds; `stroke` is null while the brush is not
+// over the cloud. Returns the range of particles whose offsets changed (for a partial
+// attribute upload), or null if none did.
+export const stepBrushField = (
+  field: BrushField,
+  positions: Float32Array,
+  stroke: BrushStroke | null,
+  dt: number
+): { first: number; last: number } | null => {
+  if (stroke && stroke.mode !== 'off') collectTouched(field, positions, stroke);
+  if (field.movingCount === 0) return null;
+
+  const { offsets, velocities, moving, isMoving } = field;
+  const time = Math.min(dt, MAX_FIELD_STEP);
+  const steps = Math.max(1, Math.ceil(time / MAX_SPRING_STEP));
+  const step = time / steps;
+  let first = field.count;
+  let last = -1;
+  let kept = 0;
+
+  for (let n = 0; n < field.movingCount; n++) {
+    const i = moving[n];
+    if (stroke && stroke.mode !== 'off') strokeTarget(stroke, positions[i * 3], positions[i * 3 + 1], strokeOffset);
+    else strokeOffset.fill(0);
+
+    // Each axis is its own spring (semi-implicit Euler, as in stepSpring)
+    let settled = true;
+    for (let k = 0; k < 3; k++) {
+      let offset = offsets[i * 4 + k];
+      let velocity = velocities[i * 3 + k];
+      for (let s = 0; s < steps; s++) {
+        velocity += (SPRING_STIFFNESS * (strokeOffset[k] - offset) - SPRING_DAMPING * velocity) * step;
+        offset += velocity * step;
+      }
+      offsets[i * 4 + k] = offset;
+      velocities[i * 3 + k] = velocity;
+      if (strokeOffset[k] !== 0 || Math.abs(offset) > SETTLE_EPSILON || Math.abs(velocity) > SETTLE_EPSILON) settled = false;
+    }
+
+    const tint = offsets[i * 4 + 3];
+    const tintSpeed = strokeOffset[3] > tint ? TINT_PICKUP_SPEED : TINT_FADE_SPEED;
+    offsets[i * 4 + 3] = tint + (strokeOffset[3] - tint) * Math.min(1, time * tintSpeed);
+    if (offsets[i * 4 + 3] > SETTLE_EPSILON) settled = false;
+
+    if (settled) {
+      offsets.fill(0, i * 4, i * 4 + 4);
+      velocities.fill(0, i * 3, i * 3 + 3);
+      isMoving[i] = 0;
+    } else {
+      moving[kept++] = i;
+    }
+    first = Math.min(first, i);
+    last = Math.max(last, i);
+  }
+
+  field.movingCount = kept;
+  return { first, last };
+};
+
+// --- Smear Colour ---
+
+export const COLOR_GRID_SIZE = 32; // Cells per side
+
+const gridCell = (bounds: Float32Array, x: number, y: number): number => {
+  const u = (x - bounds[0]) / Math.max(bounds[2] - bounds[0], 1e-4);
+  const v = (y - bounds[1]) / Math.max(bounds[3] - bounds[1], 1e-4);
+  const col = Math.min(COLOR_GRID_SIZE - 1, Math.max(0, Math.floor(u * COLOR_GRID_SIZE)));
+  const row = Math.min(COLOR_GRID_SIZE - 1, Math.max(0, Math.floor(v * COLOR_GRID_SIZE)));
+  return row * COLOR_GRID_SIZE + col;
+};
+
+// Average particle colour per cell over the cloud bounds, as (r, g, b, count) per cell
+export const createColorGrid = (positions: Float32Array, colors: Float32Array, bounds: Float32Array): Float32Array => {
+  const grid = new Float32Array(COLOR_GRID_SIZE * COLOR_GRID_SIZE * 4);
+  for (let i = 0; i < positions.length / 3; i++) {
+    const cell = gridCell(bounds, positions[i * 3], positions[i * 3 + 1]) * 4;
+    grid[cell] += colors[i * 3];
+    grid[cell + 1] += colors[i * 3 + 1];
+    grid[cell + 2] += colors[i * 3 + 2];
+    grid[cell + 3] += 1;
+  }
+  for (let cell = 0; cell < grid.length; cell += 4) {
+    const count = grid[cell + 3];
+    if (count > 0) {
+      grid[cell] /= count;
+      grid[cell + 1] /= count;
+      grid[cell + 2] /= count;
+    }
+  }
+  return grid;
+};
+
+// Write the colour at (x, y) into `out`; false (and `out` untouched) over an empty cell
+export const sampleColorGrid = (
+  grid: Float32Array,
+  bounds: Float32Array,
+  x: number,
+  y: number,
+  out: { setRGB: (r: number, g: number, b: number) => unknown }
+): boolean => {
+  const cell = gridCell(bounds, x, y) * 4;
+  if (grid[cell + 3] === 0) return false;
+  out.setRGB(grid[cell], grid[cell + 1], grid[cell + 2]);
+  return true;
+};
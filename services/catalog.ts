@@ -0,0 +1,154 @@
+import { Painting, PaintingCollection } from "../types";
+import builtInManifest from "../catalog/catalog.json";
+import { registerBundledImage } from "./imageSources";
+
+// The gallery catalog: collections of paintings described by JSON manifests.
+// catalog/catalog.json is bundled; more manifests in the same format can be listed
+// in CATALOG_URLS (comma-separated, e.g. files dropped into public/) and are
+// fetched at startup. Manifest format:
+//   { "version": 1, "collections": [{ "id", "title", "description"?, "paintings": [...] }] }
+// A painting's optional "localUrl" points at a copy shipped with the app (e.g. under
+// public/); the "bundled" image source loads it instead of the remote "url".
+
+export const CATALOG_VERSION = 1;
+
+const ID_PATTERN = /^[\w-]+$/;
+const OPTIONAL_TEXT_FIELDS = ["museum", "medium", "dimensions", "license", "attribution"] as const;
+
+// Relative paths or http(s) URLs; anything with another scheme (javascript:, file:) is rejected
+const isAllowedUrl = (value: string) => /^https?:\/\//i.test(value) || !/^[a-z][a-z\d+.-]*:/i.test(value);
+
+const requireString = (input: Record<string, unknown>, key: string, path: string): string => {
+  const value = input[key];
+  if (typeof value !== "string" || !value.trim()) throw new Error(`${path}.${key} must be a non-empty string`);
+  return value.trim();
+};
+
+const parseUrl = (value: string, path: string, baseUrl?: string): string => {
+  if (!isAllowedUrl(value)) throw new Error(`${path} must be an http(s) URL or a relative path`);
+  return baseUrl ? new URL(value, baseUrl).href : value;
+};
+
+const parsePainting = (value: unknown, path: string, collection: string, baseUrl?: string): Painting => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) throw new Error(`${path} must be an object`);
+  const input = value as Record<string, unknown>;
+
+  const id = requireString(input, "id", path);
+  if (!ID_PATTERN.test(id)) throw new Error(`${path}.id may only contain letters, digits, "_" and "-"`);
+
+  const painting: Painting = {
+    id,
+    title: requireString(input, "title", path),
+    artist: requireString(input, "artist", path),
+    year: requireString(input, "year", path),
+    url: parseUrl(requireString(input, "url", path), `${path}.url`, baseUrl),
+    collection
+  };
+
+  if (input.thumbnailUrl !== undefined) {
+    painting.thumbnailUrl = parseUrl(requireString(input, "thumbnailUrl", path), `${path}.thumbnailUrl`, baseUrl);
+  }
+  if (input.localUrl !== undefined) {
+    painting.localUrl = parseUrl(requireString(input, "localUrl", path), `${path}.localUrl`, baseUrl);
+  }
+  OPTIONAL_TEXT_FIELDS.forEach((key) => {
+    if (input[key] !== undefined) painting[key] = requireString(input, key, path);
+  });
+  if (input.tags !== undefined) {
+    if (!Array.isArray(input.tags) || input.tags.some(tag => typeof tag !== "string" || !tag.trim())) {
+      throw new Error(`${path}.tags must be an array of non-empty strings`);
+    }
+    painting.tags = (input.tags as string[]).map(tag => tag.trim().toLowerCase());
+  }
+
+  return painting;
+};
+
+// Validate an unknown value as a catalog manifest. Throws with a readable message
+// naming the offending field. Relative URLs resolve against `baseUrl` when given.
+export const parseCatalog = (value: unknown, source = "catalog", baseUrl?: string): PaintingCollection[] => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) throw new Error(`${source} must be an object`);
+  const { version, collections } = value as Record<string, unknown>;
+
+  if (version !== CATALOG_VERSION) throw new Error(`${source}.version must be ${CATALOG_VERSION}`);
+  if (!Array.isArray(collections)) throw new Error(`${source}.collections must be an array`);
+
+  return collections.map((entry, i) => {
+    const path = `${source}.collections[${i}]`;
+    if (typeof entry !== "object" || entry === null) throw new Error(`${path} must be an object`);
+    const input = entry as Record<string, unknown>;
+
+    const id = requireString(input, "id", path);
+    if (!ID_PATTERN.test(id)) throw new Error(`${path}.id may only contain letters, digits, "_" and "-"`);
+    if (!Array.isArray(input.paintings)) throw new Error(`${path}.paintings must be an array`);
+
+    return {
+      id,
+      title: requireString(input, "title", path),
+      ...(input.description !== undefined ? { description: requireString(input, "description", path) } : {}),
+      paintings: input.paintings.map((p, j) => parsePainting(p, `${path}.paintings[${j}]`, id, baseUrl))
+    };
+  });
+};
+
+// Append collections, skipping collection and painting ids that are already taken
+export const mergeCollections = (base: PaintingCollection[], extra: PaintingCollection[]): PaintingCollection[] => {
+  const collectionIds = new Set(base.map(c => c.id));
+  const paintingIds = new Set(base.flatMap(c => c.paintings.map(p => p.id)));
+  const merged = [...base];
+
+  extra.forEach((collection) => {
+    if (collectionIds.has(collection.id)) {
+      console.warn(`Ignoring duplicate catalog collection "${collection.id}"`);
+      return;
+    }
+    const paintings = collection.paintings.filter((painting) => {
+      if (!paintingIds.has(painting.id)) return true;
+      console.warn(`Ignoring duplicate catalog painting "${painting.id}" in "${collection.id}"`);
+      return false;
+    });
+    paintings.forEach(p => paintingIds.add(p.id));
+    collectionIds.add(collection.id);
+    merged.push({ ...collection, paintings });
+  });
+
+  return merged;
+};
+
+export const catalogPaintings = (collections: PaintingCollection[]): Painting[] =>
+  collections.flatMap(c => c.paintings);
+
+// Hand the paintings' local copies to the "bundled" image source. Call it with the
+// paintings kept after mergeCollections, so a dropped duplicate cannot override them.
+export const registerLocalImages = (paintings: Painting[]) => {
+  paintings.forEach((painting) => {
+    if (painting.localUrl) registerBundledImage(painting.url, painting.localUrl);
+  });
+};
+
+// The bundled manifest is part of the build, so an invalid one fails loudly at startup
+export const BUILT_IN_COLLECTIONS: PaintingCollection[] = parseCatalog(builtInManifest, "catalog/catalog.json");
+registerLocalImages(catalogPaintings(BUILT_IN_COLLECTIONS));
+
+const extraCatalogUrls = (): string[] =>
+  (process.env.CATALOG_URLS || "")
+    .split(",")
+    .map(url => url.trim())
+    .filter(Boolean);
+
+// Fetch the manifests listed in CATALOG_URLS. A manifest that fails to load or
+// validate is skipped with a warning; the others still load.
+export const loadExtraCollections = async (signal?: AbortSignal): Promise<PaintingCollection[]> => {
+  const results = await Promise.all(extraCatalogUrls().map(async (url) => {
+    try {
+      const manifestUrl = new URL(url, window.location.href).href;
+      const response = await fetch(manifestUrl, { signal });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return parseCatalog(await response.json(), url, manifestUrl);
+    } catch (err) {
+      if (!signal?.aborted) console.warn(`Ignoring catalog manifest "${url}"`, err);
+      return [];
+    }
+  }));
+  return results.reduce<PaintingCollection[]>((all, collections) => mergeCollections(all, collections), []);
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { clampConfig, CONFIG_RANGES, DEFAULT_CONFIG, parseParticleConfig } from "./configSchema";
+
+describe("parseParticleConfig", () => {
+  it("accepts the default config", () => {
+    expect(parseParticleConfig(DEFAULT_CONFIG)).toEqual(DEFAULT_CONFIG);
+  });
+
+  it("drops unknown keys", () => {
+    const parsed = parseParticleConfig({ ...DEFAULT_CONFIG, colour: 'red' });
+    expect(parsed).not.toHaveProperty('colour');
+  });
+
+  it("keeps optional fields optional", () => {
+    const { size, depth, density, dispersion, brightness } = DEFAULT_CONFIG;
+    expect(parseParticleConfig({ size, depth, density, dispersion, brightness })).toEqual({
+      size, depth, density, dispersion, brightness
+    });
+  });
+
+  it("rejects non-objects", () => {
+    expect(() => parseParticleConfig(null)).toThrow("config must be an object");
+    expect(() => parseParticleConfig([])).toThrow("config must be an object");
+  });
+
+  it("names a missing required field", () => {
+    const { depth: _depth, ...rest } = DEFAULT_CONFIG;
+    expect(() => parseParticleConfig(rest, 'preset')).toThrow("preset.depth is required");
+  });
+
+  it("rejects values that are not finite numbers", () => {
+    expect(() => parseParticleConfig({ ...DEFAULT_CONFIG, size: '1' })).toThrow("config.size must be a number");
+    expect(() => parseParticleConfig({ ...DEFAULT_CONFIG, size: NaN })).toThrow("config.size must be a number");
+  });
+
+  it("rejects values outside the slider range", () => {
+    const { min, max } = CONFIG_RANGES.depth;
+    expect(() => parseParticleConfig({ ...DEFAULT_CONFIG, depth: max + 1 }))
+      .toThrow(`config.depth must be between ${min} and ${max}`);
+  });
+
+  it("validates the depth mode, easing and audio routes", () => {
+    expect(() => parseParticleConfig({ ...DEFAULT_CONFIG, useSemanticDepth: 'yes' }))
+      .toThrow("config.useSemanticDepth must be a boolean");
+    expect(() => parseParticleConfig({ ...DEFAULT_CONFIG, morphEasing: 'bounce' }))
+      .toThrow("config.morphEasing must be one of");
+    expect(() => parseParticleConfig({ ...DEFAULT_CONFIG, audioRoutes: {} }))
+      .toThrow("config.audioRoutes must be an array");
+  });
+});
+
+describe("clampConfig", () => {
+  it("clamps numeric fields into their ranges", () => {
+    const clamped = clampConfig({ ...DEFAULT_CONFIG, size: 10, depth: -5 });
+    expect(clamped.size).toBe(CONFIG_RANGES.size.max);
+    expect(clamped.depth).toBe(CONFIG_RANGES.depth.min);
+    expect(clamped.brightness).toBe(DEFAULT_CONFIG.brightness);
+  });
+});
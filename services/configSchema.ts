@@ -0,0 +1,99 @@
+import { MorphEasing, ParticleConfig } from "../types";
+import { clampAudioRoute, DEFAULT_AUDIO_ROUTES, parseAudioRoutes } from "./audioRouting";
+
+// Single source of truth for ParticleConfig defaults and slider ranges.
+// Used by Controls for the sliders and by anything that reads configs from
+// untrusted input (imported presets, URLs, AI suggestions).
+
+export interface NumericRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type NumericConfigKey = 'size' | 'depth' | 'density' | 'dispersion' | 'brightness' | 'morphDuration';
+
+export const CONFIG_RANGES: Record<NumericConfigKey, NumericRange> = {
+  brightness: { min: 0, max: 3, step: 0.1 },
+  depth: { min: 0, max: 50, step: 0.5 },
+  density: { min: 1, max: 6, step: 0.5 },
+  size: { min: 0.1, max: 2.0, step: 0.1 },
+  dispersion: { min: 0, max: 20, step: 0.1 },
+  morphDuration: { min: 0, max: 5, step: 0.1 }
+};
+
+export const MORPH_EASINGS: MorphEasing[] = ['easeInOutCubic', 'easeInOutSine', 'easeOutExpo', 'linear'];
+
+export const DEFAULT_CONFIG: ParticleConfig = {
+  size: 0.8,
+  depth: 15, // How much "3D" pop it has based on brightness
+  density: 1.5, // Set to 1.5 to enhance the 3D point-cloud aesthetic
+  dispersion: 0,
+  brightness: 1.2, // Default slight boost
+  useSemanticDepth: false,
+  morphDuration: 1.5, // Seconds to fly particles between paintings
+  morphEasing: 'easeInOutCubic',
+  audioRoutes: DEFAULT_AUDIO_ROUTES
+};
+
+const REQUIRED_KEYS: NumericConfigKey[] = ['size', 'depth', 'density', 'dispersion', 'brightness'];
+
+export const clampToRange = (key: NumericConfigKey, value: number): number => {
+  const { min, max } = CONFIG_RANGES[key];
+  return Math.min(max, Math.max(min, value));
+};
+
+// Clamp every numeric field into its slider range
+export const clampConfig = (config: ParticleConfig): ParticleConfig => {
+  const result: ParticleConfig = { ...config };
+  (Object.keys(CONFIG_RANGES) as NumericConfigKey[]).forEach((key) => {
+    const value = result[key];
+    if (typeof value === 'number') result[key] = clampToRange(key, value);
+  });
+  if (result.audioRoutes) result.audioRoutes = result.audioRoutes.map(clampAudioRoute);
+  return result;
+};
+
+// Validate an unknown value as a ParticleConfig. Throws with a readable message
+// naming the offending field; unknown keys are dropped.
+export const parseParticleConfig = (value: unknown, path = 'config'): ParticleConfig => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  const input = value as Record<string, unknown>;
+  const result: Partial<ParticleConfig> = {};
+
+  (Object.keys(CONFIG_RANGES) as NumericConfigKey[]).forEach((key) => {
+    const field = input[key];
+    if (field === undefined) {
+      if (REQUIRED_KEYS.includes(key)) throw new Error(`${path}.${key} is required`);
+      return;
+    }
+    if (typeof field !== 'number' || !Number.isFinite(field)) {
+      throw new Error(`${path}.${key} must be a number`);
+    }
+    const { min, max } = CONFIG_RANGES[key];
+    if (field < min || field > max) {
+      throw new Error(`${path}.${key} must be between ${min} and ${max}`);
+    }
+    result[key] = field;
+  });
+
+  if (input.useSemanticDepth !== undefined) {
+    if (typeof input.useSemanticDepth !== 'boolean') throw new Error(`${path}.useSemanticDepth must be a boolean`);
+    result.useSemanticDepth = input.useSemanticDepth;
+  }
+
+  if (input.morphEasing !== undefined) {
+    if (!MORPH_EASINGS.includes(input.morphEasing as MorphEasing)) {
+      throw new Error(`${path}.morphEasing must be one of ${MORPH_EASINGS.join(', ')}`);
+    }
+    result.morphEasing = input.morphEasing as MorphEasing;
+  }
+
+  if (input.audioRoutes !== undefined) {
+    result.audioRoutes = parseAudioRoutes(input.audioRoutes, `${path}.audioRoutes`);
+  }
+
+  return result as ParticleConfig;
+};
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CONFIG } from "./configSchema";
+import { decodeViewLink, encodeViewLink } from "./deepLink";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("deep links", () => {
+  it("round-trips painting, config and camera", () => {
+    const link = {
+      paintingId: 'mona-lisa',
+      config: DEFAULT_CONFIG,
+      camera: { position: [1.5, -2, 180] as [number, number, number], target: [0, 0, 0] as [number, number, number] }
+    };
+    expect(decodeViewLink(`#${encodeViewLink(link)}`)).toEqual(link);
+  });
+
+  it("links remote images by URL", () => {
+    const hash = encodeViewLink({ paintingUrl: 'https://example.com/art.jpg', config: {} });
+    expect(decodeViewLink(hash)).toEqual({ paintingUrl: 'https://example.com/art.jpg', config: {} });
+  });
+
+  it("never links session-local image URLs", () => {
+    const hash = encodeViewLink({ paintingUrl: 'blob:http://localhost/1234', config: {} });
+    expect(new URLSearchParams(hash).has('url')).toBe(false);
+  });
+
+  it("returns null for an empty hash", () => {
+    expect(decodeViewLink('')).toBeNull();
+    expect(decodeViewLink('#')).toBeNull();
+  });
+
+  it("ignores links from another version", () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(decodeViewLink('#v=2&painting=mona-lisa')).toBeNull();
+  });
+
+  it("keeps the valid params of a mangled link", () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const link = decodeViewLink('#painting=mona-lisa&depth=999&size=&density=2&morphEasing=bounce&useSemanticDepth=1&cam=1,2&target=0,0,0&foo=bar&url=javascript:alert(1)');
+
+    expect(link).toEqual({
+      paintingId: 'mona-lisa',
+      config: { density: 2, useSemanticDepth: true },
+      camera: { target: [0, 0, 0] }
+    });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('foo'));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('depth, size'));
+  });
+
+  it("drops an unreadable routes param", () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(decodeViewLink('#routes=nonsense')?.config).toEqual({});
+  });
+});
@@ -0,0 +1,132 @@
+import { CameraState, ParticleConfig, Vec3 } from "../types";
+import { CONFIG_RANGES, MORPH_EASINGS, NumericConfigKey } from "./configSchema";
+import { decodeAudioRoutes, encodeAudioRoutes } from "./audioRouting";
+
+// Serializes the current view (painting, ParticleConfig, camera) into the URL hash,
+// e.g. #v=1&painting=mona-lisa&depth=30&density=3&routes=low:depth:0.5:0:linear&cam=0,0,180&target=0,0,0
+
+export const DEEP_LINK_VERSION = 1;
+
+export interface ViewLink {
+  paintingId?: string;
+  paintingUrl?: string; // Remote image that is not part of the catalog
+  config: Partial<ParticleConfig>;
+  camera?: Partial<CameraState>;
+}
+
+const NUMERIC_KEYS = Object.keys(CONFIG_RANGES) as NumericConfigKey[];
+const KNOWN_PARAMS = new Set<string>([
+  'v', 'painting', 'url', 'cam', 'target', 'useSemanticDepth', 'morphEasing', 'routes', ...NUMERIC_KEYS
+]);
+
+const round = (n: number, digits = 3) => Number(n.toFixed(digits));
+
+const isRemoteUrl = (value: string) => /^https?:\/\//i.test(value);
+
+const parseVec3 = (value: string): Vec3 | undefined => {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 3 || parts.some(n => !Number.isFinite(n))) return undefined;
+  return [parts[0], parts[1], parts[2]];
+};
+
+export const encodeViewLink = (link: ViewLink): string => {
+  const params = new URLSearchParams();
+  params.set('v', String(DEEP_LINK_VERSION));
+
+  if (link.paintingId) params.set('painting', link.paintingId);
+  else if (link.paintingUrl && isRemoteUrl(link.paintingUrl)) params.set('url', link.paintingUrl);
+
+  NUMERIC_KEYS.forEach((key) => {
+    const value = link.config[key];
+    if (typeof value === 'number') params.set(key, String(round(value)));
+  });
+  if (link.config.useSemanticDepth !== undefined) params.set('useSemanticDepth', link.config.useSemanticDepth ? '1' : '0');
+  if (link.config.morphEasing) params.set('morphEasing', link.config.morphEasing);
+  if (link.config.audioRoutes) params.set('routes', encodeAudioRoutes(link.config.audioRoutes));
+
+  if (link.camera?.position) params.set('cam', link.camera.position.map(n => round(n)).join(','));
+  if (link.camera?.target) params.set('target', link.camera.target.map(n => round(n)).join(','));
+
+  return params.toString();
+};
+
+// Parse a URL hash. Unknown params and invalid values are dropped with a warning,
+// so a mangled link still restores whatever is valid.
+export const decodeViewLink = (hash: string): ViewLink | null => {
+  const raw = hash.replace(/^#/, '');
+  if (!raw) return null;
+
+  const params = new URLSearchParams(raw);
+  const rejected: string[] = [];
+  const link: ViewLink = { config: {} };
+
+  params.forEach((_value, key) => {
+    if (!KNOWN_PARAMS.has(key)) rejected.push(key);
+  });
+
+  const version = params.get('v');
+  if (version !== null && Number(version) !== DEEP_LINK_VERSION) {
+    console.warn(`Ignoring deep link with unsupported version ${version}`);
+    return null;
+  }
+
+  const paintingId = params.get('painting');
+  const paintingUrl = params.get('url');
+  if (paintingId) link.paintingId = paintingId;
+  else if (paintingUrl) {
+    if (isRemoteUrl(paintingUrl)) link.paintingUrl = paintingUrl;
+    else rejected.push('url');
+  }
+
+  NUMERIC_KEYS.forEach((key) => {
+    const value = params.get(key);
+    if (value === null) return;
+    const n = Number(value);
+    const { min, max } = CONFIG_RANGES[key];
+    if (value.trim() !== '' && Number.isFinite(n) && n >= min && n <= max) link.config[key] = n;
+    else rejected.push(key);
+  });
+
+  const semantic = params.get('useSemanticDepth');
+  if (semantic !== null) {
+    if (semantic === '1' || semantic === '0') link.config.useSemanticDepth = semantic === '1';
+    else rejected.push('useSemanticDepth');
+  }
+
+  const easing = params.get('morphEasing');
+  if (easing !== null) {
+    const match = MORPH_EASINGS.find(e => e === easing);
+    if (match) link.config.morphEasing = match;
+    else rejected.push('morphEasing');
+  }
+
+  const routes = params.get('routes');
+  if (routes !== null) {
+    try {
+      link.config.audioRoutes = decodeAudioRoutes(routes);
+    } catch {
+      rejected.push('routes');
+    }
+  }
+
+  const position = params.get('cam');
+  const target = params.get('target');
+  const camera: Partial<CameraState> = {};
+  if (position !== null) {
+    const vec = parseVec3(position);
+    if (vec) camera.position = vec;
+    else rejected.push('cam');
+  }
+  if (target !== null) {
+    const vec = parseVec3(target);
+    if (vec) camera.target = vec;
+    else rejected.push('target');
+  }
+  if (camera.position || camera.target) link.camera = camera;
+
+  if (rejected.length > 0) {
+    console.warn(`Ignoring invalid deep link params: ${rejected.join(', ')}`);
+  }
+
+  return link;
+};
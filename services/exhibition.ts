@@ -0,0 +1,136 @@
+import {
+  CameraState,
+  ExhibitionLayout,
+  ExhibitionOverride,
+  ExhibitionPlacement,
+  ExhibitionSettings,
+  Painting,
+  ParticleConfig
+} from "../types";
+import { clampToRange } from "./configSchema";
+
+// Exhibition mode: several paintings as separate particle clouds in one scene,
+// arranged along a wall, in a ring or on a grid. Each painting can override part of
+// the global ParticleConfig, and distant clouds are sampled at a lower density.
+
+const STORAGE_KEY = 'artparticle3d:exhibition';
+
+export const EXHIBITION_LAYOUTS: ExhibitionLayout[] = ['wall', 'ring', 'grid'];
+export const MAX_EXHIBITION_CLOUDS = 12;
+export const OVERRIDE_KEYS = ['brightness', 'depth', 'density', 'size', 'dispersion'] as const;
+
+const SLOT_SPACING = 140; // World units between cloud centers (a 1024px image is ~102 wide)
+const VIEW_DISTANCE = 180; // Same framing as the single-painting camera
+
+export const DEFAULT_EXHIBITION: ExhibitionSettings = {
+  enabled: false,
+  layout: 'wall',
+  hidden: [],
+  overrides: {}
+};
+
+// --- Layout ---
+
+export const exhibitionPaintings = (paintings: Painting[], settings: ExhibitionSettings): Painting[] =>
+  paintings.filter(p => !settings.hidden.includes(p.id)).slice(0, MAX_EXHIBITION_CLOUDS);
+
+const place = (layout: ExhibitionLayout, i: number, count: number): Omit<ExhibitionPlacement, 'painting'> => {
+  switch (layout) {
+    case 'ring': {
+      // Clouds face the center; the first one sits straight ahead
+      const radius = Math.max(SLOT_SPACING, (count * SLOT_SPACING) / (2 * Math.PI));
+      const angle = (i / count) * 2 * Math.PI;
+      return { position: [radius * Math.sin(angle), 0, -radius * Math.cos(angle)], rotationY: -angle };
+    }
+    case 'grid': {
+      const cols = Math.ceil(Math.sqrt(count));
+      const rows = Math.ceil(count / cols);
+      const col = i % cols;
+      const row = Math.floor(i / cols);
+      return {
+        position: [(col - (cols - 1) / 2) * SLOT_SPACING, ((rows - 1) / 2 - row) * SLOT_SPACING, 0],
+        rotationY: 0
+      };
+    }
+    default:
+      return { position: [(i - (count - 1) / 2) * SLOT_SPACING, 0, 0], rotationY: 0 };
+  }
+};
+
+export const layoutExhibition = (paintings: Painting[], layout: ExhibitionLayout): ExhibitionPlacement[] =>
+  paintings.map((painting, i) => ({ painting, ...place(layout, i, paintings.length) }));
+
+// Camera view that frames one cloud head-on
+export const viewpointFor = ({ position, rotationY }: ExhibitionPlacement): CameraState => ({
+  position: [
+    position[0] + Math.sin(rotationY) * VIEW_DISTANCE,
+    position[1],
+    position[2] + Math.cos(rotationY) * VIEW_DISTANCE
+  ],
+  target: position
+});
+
+export const applyOverride = (config: ParticleConfig, override?: ExhibitionOverride): ParticleConfig =>
+  override ? { ...config, ...override } : config;
+
+// --- Level of Detail ---
+
+// Density scale by camera distance; the last level has no upper bound
+const LOD_LEVELS = [
+  { distance: 320, scale: 1 },
+  { distance: 640, scale: 0.5 },
+  { distance: Infinity, scale: 0.25 }
+];
+// A level is only left once the distance is this far past its boundary, so a camera
+// resting near a boundary does not resample the cloud back and forth
+const LOD_HYSTERESIS = 0.1;
+
+export const lodLevelFor = (distance: number, current: number): number => {
+  const level = LOD_LEVELS.findIndex(l => distance < l.distance);
+  if (level > current && distance < LOD_LEVELS[current].distance * (1 + LOD_HYSTERESIS)) return current;
+  if (level < current && distance > LOD_LEVELS[level].distance * (1 - LOD_HYSTERESIS)) return current;
+  return level;
+};
+
+// Snapped to the slider step so each level maps to one geometry cache entry
+export const lodDensity = (density: number, level: number): number =>
+  Math.max(0.5, Math.round(density * LOD_LEVELS[level].scale * 2) / 2);
+
+// --- Persistence ---
+
+const parseOverride = (value: unknown): ExhibitionOverride => {
+  const input = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  const override: ExhibitionOverride = {};
+  OVERRIDE_KEYS.forEach((key) => {
+    const field = input[key];
+    if (typeof field === 'number' && Number.isFinite(field)) override[key] = clampToRange(key, field);
+  });
+  return override;
+};
+
+export const loadExhibition = (): ExhibitionSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_EXHIBITION;
+    const input = JSON.parse(raw) as Partial<Record<keyof ExhibitionSettings, unknown>>;
+    const overrides = typeof input.overrides === 'object' && input.overrides !== null ? input.overrides : {};
+
+    return {
+      enabled: input.enabled === true,
+      layout: EXHIBITION_LAYOUTS.includes(input.layout as ExhibitionLayout) ? input.layout as ExhibitionLayout : 'wall',
+      hidden: Array.isArray(input.hidden) ? input.hidden.filter((id): id is string => typeof id === 'string') : [],
+      overrides: Object.fromEntries(Object.entries(overrides).map(([id, value]) => [id, parseOverride(value)]))
+    };
+  } catch (err) {
+    console.warn(`Ignoring unreadable localStorage entry "${STORAGE_KEY}"`, err);
+    return DEFAULT_EXHIBITION;
+  }
+};
+
+export const saveExhibition = (settings: ExhibitionSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn(`Failed to persist "${STORAGE_KEY}"`, err);
+  }
+};
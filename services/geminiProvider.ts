@@ -0,0 +1,104 @@
+import { Content, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import { ImagePreview } from "./particleLoader";
+import { INSIGHT_ENV, InsightProvider, JsonSchema, withBackoff } from "./insightProvider";
+
+// Google Gemini through @google/genai (GEMINI_API_KEY, GEMINI_MODEL)
+
+const imagePart = (image: ImagePreview): Part => ({ inlineData: { mimeType: image.mimeType, data: image.data } });
+
+const SCHEMA_TYPES: Record<string, Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+// The shared JSON Schema as a Gemini responseSchema. Properties keep their declaration
+// order (propertyOrdering), which Gemini otherwise sorts alphabetically.
+export const toGeminiSchema = (schema: JsonSchema): Schema => {
+  const { type, description, enum: values, minimum, maximum, properties, items, required } = schema as {
+    type?: string;
+    description?: string;
+    enum?: string[];
+    minimum?: number;
+    maximum?: number;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+  };
+
+  const result: Schema = {};
+  if (type) result.type = SCHEMA_TYPES[type];
+  if (description) result.description = description;
+  if (values) {
+    result.format = "enum";
+    result.enum = values;
+  }
+  if (minimum !== undefined) result.minimum = minimum;
+  if (maximum !== undefined) result.maximum = maximum;
+  if (items) result.items = toGeminiSchema(items);
+  if (properties) {
+    result.properties = Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toGeminiSchema(value)]));
+    result.propertyOrdering = Object.keys(properties);
+  }
+  if (required) result.required = required;
+  return result;
+};
+
+export const createGeminiProvider = (apiKey = INSIGHT_ENV.geminiApiKey, model = INSIGHT_ENV.geminiModel): InsightProvider => {
+  // One client for the whole session
+  let client: GoogleGenAI | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) throw new Error("Gemini API key is not configured");
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    id: "gemini",
+    label: "Gemini",
+    model,
+    isConfigured: () => Boolean(apiKey),
+
+    generateJson: ({ image, prompt, schema }, signal) =>
+      withBackoff(async () => {
+        const response = await getClient().models.generateContent({
+          model,
+          contents: [{
+            role: "user",
+            parts: [...(image ? [imagePart(image)] : []), { text: prompt }]
+          }],
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(schema),
+            abortSignal: signal
+          }
+        });
+
+        const text = response.text;
+        if (!text) throw new Error("No response from Gemini");
+        return text;
+      }, signal),
+
+    async *streamChat({ image, instruction, turns }, signal) {
+      const contents: Content[] = turns.map((message, i) => {
+        const parts: Part[] = [{ text: message.text }];
+        if (i === 0 && image) parts.unshift(imagePart(image));
+        return { role: message.role, parts };
+      });
+
+      const stream = await withBackoff(() => getClient().models.generateContentStream({
+        model,
+        contents,
+        config: { systemInstruction: instruction, abortSignal: signal }
+      }), signal);
+
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
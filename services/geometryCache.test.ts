@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GeometryData } from "../types";
+import { loadImageData } from "./particleLoader";
+import { clearGeometryCache, getGeometry, getGeometryCacheStats, MEMORY_BUDGET_BYTES } from "./geometryCache";
+
+vi.mock("./particleLoader", () => ({
+  loadImageData: vi.fn(),
+  hashImageSource: vi.fn()
+}));
+
+// Geometry whose buffers report `bytes` in total, without allocating them
+const fakeGeometry = (src: string, bytes: number): GeometryData => {
+  const buffer = (byteLength: number) => ({ byteLength }) as unknown as Float32Array;
+  return {
+    positions: buffer(bytes),
+    colors: buffer(0),
+    brightness: buffer(0),
+    randoms: buffer(0),
+    density: 1,
+    src,
+    semantic: false
+  };
+};
+
+const sizes = new Map<string, number>();
+
+beforeEach(async () => {
+  sizes.clear();
+  vi.mocked(loadImageData).mockReset();
+  vi.mocked(loadImageData).mockImplementation(async (src) => ({
+    geometry: fakeGeometry(src, sizes.get(src) ?? 1024),
+    hash: `hash-${src}`
+  }));
+  await clearGeometryCache();
+});
+
+describe("geometry cache memory tier", () => {
+  it("serves repeat requests from memory", async () => {
+    await getGeometry("https://example.com/a.jpg", 1, false);
+    await getGeometry("https://example.com/a.jpg", 1, false);
+
+    const stats = getGeometryCacheStats();
+    expect(loadImageData).toHaveBeenCalledTimes(1);
+    expect(stats.misses).toBe(1);
+    expect(stats.hits.memory).toBe(1);
+  });
+
+  it("keys entries by density and depth mode", async () => {
+    await getGeometry("https://example.com/a.jpg", 1, false);
+    await getGeometry("https://example.com/a.jpg", 2, false);
+    await getGeometry("https://example.com/a.jpg", 1, true);
+
+    expect(loadImageData).toHaveBeenCalledTimes(3);
+    expect(getGeometryCacheStats().memory.entries).toBe(3);
+  });
+
+  it("evicts the least recently used entry once over budget", async () => {
+    const third = Math.floor(MEMORY_BUDGET_BYTES / 3) + 1;
+    ["a", "b", "c"].forEach(name => sizes.set(`https://example.com/${name}.jpg`, third));
+
+    await getGeometry("https://example.com/a.jpg", 1, false);
+    await getGeometry("https://example.com/b.jpg", 1, false);
+    await getGeometry("https://example.com/a.jpg", 1, false); // a is now more recent than b
+    await getGeometry("https://example.com/c.jpg", 1, false);
+
+    let stats = getGeometryCacheStats();
+    expect(stats.evictions.memory).toBe(1);
+    expect(stats.memory.entries).toBe(2);
+    expect(stats.memory.bytes).toBeLessThanOrEqual(MEMORY_BUDGET_BYTES);
+
+    await getGeometry("https://example.com/a.jpg", 1, false);
+    expect(loadImageData).toHaveBeenCalledTimes(3);
+
+    await getGeometry("https://example.com/b.jpg", 1, false);
+    expect(loadImageData).toHaveBeenCalledTimes(4);
+    stats = getGeometryCacheStats();
+    expect(stats.hits.memory).toBe(2);
+    expect(stats.misses).toBe(4);
+  });
+
+  it("keeps the newest entry even when it alone exceeds the budget", async () => {
+    sizes.set("https://example.com/huge.jpg", MEMORY_BUDGET_BYTES + 1);
+
+    await getGeometry("https://example.com/a.jpg", 1, false);
+    await getGeometry("https://example.com/huge.jpg", 1, false);
+
+    const stats = getGeometryCacheStats();
+    expect(stats.memory.entries).toBe(1);
+    expect(stats.evictions.memory).toBe(1);
+
+    await getGeometry("https://example.com/huge.jpg", 1, false);
+    expect(loadImageData).toHaveBeenCalledTimes(2);
+  });
+
+  it("starts over after clearing", async () => {
+    await getGeometry("https://example.com/a.jpg", 1, false);
+    await clearGeometryCache();
+    await getGeometry("https://example.com/a.jpg", 1, false);
+
+    const stats = getGeometryCacheStats();
+    expect(loadImageData).toHaveBeenCalledTimes(2);
+    expect(stats.misses).toBe(1);
+    expect(stats.memory.entries).toBe(1);
+  });
+});
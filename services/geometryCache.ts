@@ -0,0 +1,319 @@
+import { GeometryData, GeometryCacheStats } from "../types";
+import { hashImageSource, loadImageData } from "./particleLoader";
+import { ExtractionHooks, hashBytes } from "./particleExtraction";
+import { isIndexedDbAvailable, requestToPromise, STORES, withStores } from "./indexedDb";
+
+// Two-tier geometry cache:
+//   1. In-memory LRU (Map re-insertion order = recency)
+//   2. IndexedDB, keyed by a content hash of the source image + sampling params
+// A src -> hash mapping is persisted as well, so repeat visits skip the download entirely.
+// Session-scoped sources (uploads' blob: URLs) are hashed from their bytes instead.
+
+export const MEMORY_BUDGET_BYTES = 256 * 1024 * 1024;
+export const DISK_BUDGET_BYTES = 512 * 1024 * 1024;
+
+type CachedBuffers = Omit<GeometryData, 'src'>;
+
+interface GeometryRecord extends CachedBuffers {
+  key: string;
+}
+
+interface GeometryMetaRecord {
+  key: string;
+  bytes: number;
+  lastAccess: number;
+}
+
+const memory = new Map<string, { data: CachedBuffers; bytes: number }>();
+let memoryBytes = 0;
+
+// src -> content hash (memo of the persisted imageHashes store)
+const srcHashes = new Map<string, string>();
+
+const stats: GeometryCacheStats = {
+  memory: { entries: 0, bytes: 0, budget: MEMORY_BUDGET_BYTES },
+  disk: { entries: 0, bytes: 0, budget: DISK_BUDGET_BYTES, available: isIndexedDbAvailable() },
+  hits: { memory: 0, disk: 0 },
+  misses: 0,
+  evictions: { memory: 0, disk: 0 }
+};
+
+const listeners = new Set<(stats: GeometryCacheStats) => void>();
+
+const snapshot = (): GeometryCacheStats => {
+  stats.memory.entries = memory.size;
+  stats.memory.bytes = memoryBytes;
+  return structuredClone(stats);
+};
+
+const notify = () => {
+  const current = snapshot();
+  listeners.forEach(listener => listener(current));
+};
+
+const geometryKey = (hash: string, density: number, semantic: boolean) =>
+  `${hash}-${density}-${semantic ? 'semantic' : 'luma'}`;
+
+const byteSize = (data: CachedBuffers) =>
+  data.positions.byteLength + data.colors.byteLength + data.brightness.byteLength + data.randoms.byteLength;
+
+// Blob and data URLs are session-scoped or too large to be useful keys on disk
+const isPersistableSrc = (src: string) => !src.startsWith('blob:') && !src.startsWith('data:');
+
+const disableDisk = (err: unknown) => {
+  console.warn("Geometry disk cache unavailable, falling back to memory only", err);
+  stats.disk.available = false;
+  notify();
+};
+
+// --- Memory Tier ---
+
+const memoryGet = (key: string): CachedBuffers | undefined => {
+  const entry = memory.get(key);
+  if (!entry) return undefined;
+
+  // Re-insert to mark as most recently used
+  memory.delete(key);
+  memory.set(key, entry);
+  return entry.data;
+};
+
+const memorySet = (key: string, data: CachedBuffers) => {
+  const existing = memory.get(key);
+  if (existing) {
+    memory.delete(key);
+    memoryBytes -= existing.bytes;
+  }
+
+  const bytes = byteSize(data);
+  memory.set(key, { data, bytes });
+  memoryBytes += bytes;
+
+  // Evict least recently used entries, but always keep the newest one
+  while (memoryBytes > MEMORY_BUDGET_BYTES && memory.size > 1) {
+    const [oldestKey, oldest] = memory.entries().next().value!;
+    memory.delete(oldestKey);
+    memoryBytes -= oldest.bytes;
+    stats.evictions.memory++;
+  }
+};
+
+// --- Disk Tier ---
+
+const diskReady: Promise<void> = !isIndexedDbAvailable()
+  ? Promise.resolve()
+  : withStores(STORES.geometryMeta, 'readonly', async (tx) => {
+      const metas = await requestToPromise(
+        tx.objectStore(STORES.geometryMeta).getAll() as IDBRequest<GeometryMetaRecord[]>
+      );
+      stats.disk.entries = metas.length;
+      stats.disk.bytes = metas.reduce((sum, meta) => sum + meta.bytes, 0);
+      notify();
+    }).catch(disableDisk);
+
+const diskLookupHash = async (src: string): Promise<string | undefined> => {
+  if (!stats.disk.available || !isPersistableSrc(src)) return undefined;
+
+  try {
+    const record = await withStores(STORES.imageHashes, 'readonly', (tx) =>
+      requestToPromise(tx.objectStore(STORES.imageHashes).get(src) as IDBRequest<{ src: string; hash: string } | undefined>)
+    );
+    return record?.hash;
+  } catch (err) {
+    disableDisk(err);
+    return undefined;
+  }
+};
+
+const diskGet = async (key: string): Promise<CachedBuffers | undefined> => {
+  if (!stats.disk.available) return undefined;
+
+  try {
+    return await withStores([STORES.geometry, STORES.geometryMeta], 'readwrite', async (tx) => {
+      const record = await requestToPromise(
+        tx.objectStore(STORES.geometry).get(key) as IDBRequest<GeometryRecord | undefined>
+      );
+      if (!record) return undefined;
+
+      const { key: _key, ...data } = record;
+      tx.objectStore(STORES.geometryMeta).put({ key, bytes: byteSize(data), lastAccess: Date.now() } satisfies GeometryMetaRecord);
+      return data;
+    });
+  } catch (err) {
+    disableDisk(err);
+    return undefined;
+  }
+};
+
+const evictDisk = () =>
+  withStores([STORES.geometry, STORES.geometryMeta], 'readwrite', async (tx) => {
+    const metaStore = tx.objectStore(STORES.geometryMeta);
+    const metas = await requestToPromise(
+      metaStore.index('lastAccess').getAll() as IDBRequest<GeometryMetaRecord[]>
+    );
+
+    // Oldest first; always keep the most recent entry
+    for (let i = 0; i < metas.length - 1 && stats.disk.bytes > DISK_BUDGET_BYTES; i++) {
+      tx.objectStore(STORES.geometry).delete(metas[i].key);
+      metaStore.delete(metas[i].key);
+      stats.disk.bytes -= metas[i].bytes;
+      stats.disk.entries--;
+      stats.evictions.disk++;
+    }
+  });
+
+const diskSet = async (src: string, hash: string, key: string, data: CachedBuffers) => {
+  if (!stats.disk.available) return;
+
+  try {
+    const bytes = byteSize(data);
+    const replaced = await withStores(
+      [STORES.geometry, STORES.geometryMeta, STORES.imageHashes],
+      'readwrite',
+      async (tx) => {
+        const metaStore = tx.objectStore(STORES.geometryMeta);
+        const previous = await requestToPromise(metaStore.get(key) as IDBRequest<GeometryMetaRecord | undefined>);
+
+        tx.objectStore(STORES.geometry).put({ key, ...data } satisfies GeometryRecord);
+        metaStore.put({ key, bytes, lastAccess: Date.now() } satisfies GeometryMetaRecord);
+        if (isPersistableSrc(src)) {
+          tx.objectStore(STORES.imageHashes).put({ src, hash });
+        }
+        return previous;
+      }
+    );
+
+    stats.disk.bytes += bytes - (replaced?.bytes ?? 0);
+    if (!replaced) stats.disk.entries++;
+
+    if (stats.disk.bytes > DISK_BUDGET_BYTES) await evictDisk();
+    notify();
+  } catch (err) {
+    disableDisk(err);
+  }
+};
+
+// --- Public API ---
+
+export const getGeometry = async (
+  src: string,
+  density: number,
+  semantic: boolean,
+  hooks: ExtractionHooks = {}
+): Promise<GeometryData> => {
+  await diskReady;
+
+  let hash = srcHashes.get(src) ?? await diskLookupHash(src);
+  // Local bytes are cheap to read, and the upload's geometry may be on disk from an earlier session
+  if (!hash && !isPersistableSrc(src) && stats.disk.available) hash = await hashImageSource(src, hooks.signal);
+  if (hash) {
+    srcHashes.set(src, hash);
+    const key = geometryKey(hash, density, semantic);
+
+    const fromMemory = memoryGet(key);
+    if (fromMemory) {
+      stats.hits.memory++;
+      notify();
+      return { ...fromMemory, src };
+    }
+
+    const fromDisk = await diskGet(key);
+    if (fromDisk) {
+      stats.hits.disk++;
+      memorySet(key, fromDisk);
+      notify();
+      return { ...fromDisk, src };
+    }
+  }
+
+  const loaded = await loadImageData(src, density, semantic, hooks);
+  hash = loaded.hash;
+  srcHashes.set(src, hash);
+
+  const key = geometryKey(hash, density, semantic);
+  const { src: _src, ...data } = loaded.geometry;
+  stats.misses++;
+  memorySet(key, data);
+  notify();
+
+  // Persist in the background; the caller does not need to wait for disk I/O
+  diskSet(src, hash, key, data);
+
+  return loaded.geometry;
+};
+
+export const getGeometryCacheStats = (): GeometryCacheStats => snapshot();
+
+export const subscribeGeometryCacheStats = (listener: (stats: GeometryCacheStats) => void) => {
+  listeners.add(listener);
+  listener(getGeometryCacheStats());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Drop every cached geometry sampled from one image (all densities and depth modes).
+// `blob` identifies the image when `src` was never loaded in this session.
+export const evictImageGeometry = async (src: string, blob?: Blob): Promise<void> => {
+  await diskReady;
+
+  const hash = srcHashes.get(src)
+    ?? (blob ? await hashBytes(await blob.arrayBuffer()) : await diskLookupHash(src));
+  srcHashes.delete(src);
+  if (!hash) return;
+
+  const prefix = `${hash}-`;
+  memory.forEach((entry, key) => {
+    if (!key.startsWith(prefix)) return;
+    memory.delete(key);
+    memoryBytes -= entry.bytes;
+  });
+
+  if (stats.disk.available) {
+    try {
+      await withStores([STORES.geometry, STORES.geometryMeta, STORES.imageHashes], 'readwrite', async (tx) => {
+        const metaStore = tx.objectStore(STORES.geometryMeta);
+        const metas = await requestToPromise(
+          metaStore.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`)) as IDBRequest<GeometryMetaRecord[]>
+        );
+        metas.forEach((meta) => {
+          tx.objectStore(STORES.geometry).delete(meta.key);
+          metaStore.delete(meta.key);
+          stats.disk.bytes -= meta.bytes;
+          stats.disk.entries--;
+        });
+        if (isPersistableSrc(src)) tx.objectStore(STORES.imageHashes).delete(src);
+      });
+    } catch (err) {
+      disableDisk(err);
+    }
+  }
+
+  notify();
+};
+
+export const clearGeometryCache = async (): Promise<void> => {
+  memory.clear();
+  memoryBytes = 0;
+  srcHashes.clear();
+
+  stats.hits = { memory: 0, disk: 0 };
+  stats.misses = 0;
+  stats.evictions = { memory: 0, disk: 0 };
+
+  if (stats.disk.available) {
+    try {
+      await withStores([STORES.geometry, STORES.geometryMeta, STORES.imageHashes], 'readwrite', (tx) => {
+        tx.objectStore(STORES.geometry).clear();
+        tx.objectStore(STORES.geometryMeta).clear();
+        tx.objectStore(STORES.imageHashes).clear();
+      });
+      stats.disk.entries = 0;
+      stats.disk.bytes = 0;
+    } catch (err) {
+      disableDisk(err);
+    }
+  }
+
+  notify();
+};
@@ -0,0 +1,52 @@
+import { HighlightRegion, NormalizedBox } from "../types";
+
+// Regions of the painting that a chat answer points at. ParticleSystem tests every
+// particle against up to MAX_HIGHLIGHT_REGIONS boxes and makes the ones inside glow.
+
+export const MAX_HIGHLIGHT_REGIONS = 4;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Gemini's native box format: "box_2d": [ymin, xmin, ymax, xmax] scaled to 0-1000.
+// Invalid entries are dropped rather than failing the whole answer.
+export const parseHighlightRegions = (value: unknown): HighlightRegion[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry): HighlightRegion[] => {
+    if (typeof entry !== "object" || entry === null) return [];
+    const { label, box_2d } = entry as Record<string, unknown>;
+    if (!Array.isArray(box_2d) || box_2d.length !== 4) return [];
+    if (!box_2d.every(n => typeof n === "number" && Number.isFinite(n))) return [];
+
+    const [ymin, xmin, ymax, xmax] = (box_2d as number[]).map(n => clamp01(n / 1000));
+    if (xmax <= xmin || ymax <= ymin) return [];
+
+    const box: NormalizedBox = [xmin, ymin, xmax, ymax];
+    return [{ label: typeof label === "string" ? label.trim() : "", box }];
+  }).slice(0, MAX_HIGHLIGHT_REGIONS);
+};
+
+// Write boxes into a vec4 uniform array in place; returns the number of active boxes
+export const packHighlightRegions = (regions: HighlightRegion[], into: Float32Array): number => {
+  const active = regions.slice(0, MAX_HIGHLIGHT_REGIONS);
+  into.fill(0);
+  active.forEach((region, i) => into.set(region.box, i * 4));
+  return active.length;
+};
+
+// World-space XY extent of a cloud (minX, minY, maxX, maxY), used to map particles
+// back to normalized image coordinates
+export const computeCloudBounds = (positions: Float32Array, into: Float32Array): Float32Array => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i];
+    const y = positions[i + 1];
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+  if (minX > maxX) into.set([0, 0, 1, 1]);
+  else into.set([minX, minY, maxX, maxY]);
+  return into;
+};
@@ -0,0 +1,59 @@
+import { MorphEasing } from "../types";
+import { en, Messages } from "./locales/en";
+import { zhCN } from "./locales/zh-CN";
+
+// UI strings for every supported locale. Components get `t` from useI18n
+// (components/I18nProvider.tsx); services call translate() with an explicit locale.
+
+export type Locale = "zh-CN" | "en";
+export type MessageKey = keyof Messages;
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: { id: Locale; label: string; languageName: string }[] = [
+  { id: "zh-CN", label: "中文", languageName: "Simplified Chinese" },
+  { id: "en", label: "EN", languageName: "English" }
+];
+
+// Shared by every easing picker
+export const EASING_LABELS: Record<MorphEasing, MessageKey> = {
+  easeInOutCubic: "easing.easeInOutCubic",
+  easeInOutSine: "easing.easeInOutSine",
+  easeOutExpo: "easing.easeOutExpo",
+  linear: "easing.linear"
+};
+
+const MESSAGES: Record<Locale, Messages> = { "zh-CN": zhCN, en };
+
+const LOCALE_KEY = "artparticle3d:locale";
+
+// "Mood: {mood}" + { mood: "Calm" } -> "Mood: Calm"; unknown placeholders are left as is
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const template = MESSAGES[locale][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+// English name of the locale's language, for prompts
+export const languageName = (locale: Locale): string =>
+  LOCALES.find(l => l.id === locale)?.languageName ?? "English";
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+// Saved choice, else the browser language
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch (err) {
+    console.warn(`Ignoring unreadable localStorage entry "${LOCALE_KEY}"`, err);
+  }
+  return typeof navigator !== "undefined" && navigator.language?.toLowerCase().startsWith("zh") ? "zh-CN" : "en";
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch (err) {
+    console.warn(`Failed to persist "${LOCALE_KEY}"`, err);
+  }
+};
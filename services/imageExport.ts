@@ -0,0 +1,140 @@
+import * as THREE from 'three';
+import type { RootState } from '@react-three/fiber';
+import { Painting, ParticleConfig } from "../types";
+import { embedPngText } from "./pngMetadata";
+
+// Offscreen still rendering of the current scene at arbitrary resolution.
+// Frames larger than the GPU's max texture size are rendered as tiles via
+// camera.setViewOffset and stitched together on a 2D canvas.
+
+export interface StillOptions {
+  width: number;
+  height: number;
+  transparent: boolean;
+}
+
+export const STILL_SIZES = [
+  { label: 'HD 1920×1080', width: 1920, height: 1080 },
+  { label: '4K 3840×2160', width: 3840, height: 2160 },
+  { label: '8K 7680×4320', width: 7680, height: 4320 }
+];
+
+export const MAX_STILL_DIMENSION = 16384;
+const MAX_TILE_SIZE = 4096;
+
+// Objects with this name (the Stars backdrop) are hidden for transparent exports
+export const BACKDROP_NAME = 'backdrop';
+
+// Particle sizes are in screen pixels, so scale them with the output resolution
+const scalePointSizes = (scene: THREE.Scene, factor: number): (() => void) => {
+  const restore: (() => void)[] = [];
+  scene.traverse((object) => {
+    const material = (object as THREE.Points).material;
+    if (material instanceof THREE.ShaderMaterial && material.uniforms.uSize) {
+      const original = material.uniforms.uSize.value;
+      material.uniforms.uSize.value = original * factor;
+      restore.push(() => { material.uniforms.uSize.value = original; });
+    }
+  });
+  return () => restore.forEach(fn => fn());
+};
+
+export const renderStill = (
+  { gl, scene, camera }: Pick<RootState, 'gl' | 'scene' | 'camera'>,
+  { width, height, transparent }: StillOptions
+): HTMLCanvasElement => {
+  if (!(camera instanceof THREE.PerspectiveCamera)) throw new Error("Still export requires a perspective camera");
+  if (width < 1 || height < 1 || width > MAX_STILL_DIMENSION || height > MAX_STILL_DIMENSION) {
+    throw new Error(`Size must be between 1 and ${MAX_STILL_DIMENSION} pixels per side`);
+  }
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error("Failed to get 2D context");
+
+  const tileSize = Math.min(gl.capabilities.maxTextureSize, MAX_TILE_SIZE);
+  const target = new THREE.WebGLRenderTarget(1, 1, { samples: 4 });
+
+  // Remember everything we touch so the live view is unaffected
+  const previousAspect = camera.aspect;
+  const previousBackground = scene.background;
+  const previousTarget = gl.getRenderTarget();
+  const previousClearAlpha = gl.getClearAlpha();
+  const backdrop = scene.getObjectByName(BACKDROP_NAME);
+  const backdropVisible = backdrop?.visible ?? false;
+
+  const drawingBufferHeight = gl.getDrawingBufferSize(new THREE.Vector2()).y;
+  const restorePointSizes = scalePointSizes(scene, height / drawingBufferHeight);
+
+  try {
+    camera.aspect = width / height;
+    if (transparent) {
+      scene.background = null;
+      gl.setClearAlpha(0);
+      if (backdrop) backdrop.visible = false;
+    }
+
+    for (let y = 0; y < height; y += tileSize) {
+      for (let x = 0; x < width; x += tileSize) {
+        const tileWidth = Math.min(tileSize, width - x);
+        const tileHeight = Math.min(tileSize, height - y);
+
+        camera.setViewOffset(width, height, x, y, tileWidth, tileHeight);
+        target.setSize(tileWidth, tileHeight);
+        gl.setRenderTarget(target);
+        gl.clear();
+        gl.render(scene, camera);
+
+        const pixels = new Uint8ClampedArray(tileWidth * tileHeight * 4);
+        gl.readRenderTargetPixels(target, 0, 0, tileWidth, tileHeight, pixels);
+
+        // WebGL rows are bottom-up; flip into the 2D canvas
+        const tile = new ImageData(tileWidth, tileHeight);
+        const rowBytes = tileWidth * 4;
+        for (let row = 0; row < tileHeight; row++) {
+          const src = (tileHeight - row - 1) * rowBytes;
+          tile.data.set(pixels.subarray(src, src + rowBytes), row * rowBytes);
+        }
+        ctx.putImageData(tile, x, y);
+      }
+    }
+  } finally {
+    camera.clearViewOffset();
+    camera.aspect = previousAspect;
+    camera.updateProjectionMatrix();
+    scene.background = previousBackground;
+    gl.setClearAlpha(previousClearAlpha);
+    if (backdrop) backdrop.visible = backdropVisible;
+    gl.setRenderTarget(previousTarget);
+    restorePointSizes();
+    target.dispose();
+  }
+
+  return output;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), type);
+  });
+
+// Render a still and encode it as PNG with painting + config metadata
+export const exportStillPng = async (
+  state: Pick<RootState, 'gl' | 'scene' | 'camera'>,
+  options: StillOptions,
+  painting: Painting,
+  config: ParticleConfig
+): Promise<Blob> => {
+  const canvas = renderStill(state, options);
+  const png = await canvasToBlob(canvas, 'image/png');
+
+  return embedPngText(png, {
+    Title: painting.title,
+    Author: painting.artist,
+    Description: `${painting.title} by ${painting.artist} (${painting.year}), rendered as a 3D particle cloud`,
+    Software: 'ArtParticle 3D',
+    'ArtParticle:Config': JSON.stringify(config)
+  });
+};
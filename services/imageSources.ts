@@ -0,0 +1,206 @@
+// Pluggable image source loading. Each ImageSourceProvider knows how to turn a
+// painting src into an image Blob; providers are tried in order with per-attempt
+// timeouts and retries, and every failure is reported as a typed ImageSourceError.
+
+export type ImageSourceErrorKind =
+  | 'timeout'
+  | 'network'     // Network or CORS failure (browsers do not distinguish them)
+  | 'http'
+  | 'not-image'
+  | 'aborted';
+
+export class ImageSourceError extends Error {
+  constructor(
+    readonly kind: ImageSourceErrorKind,
+    readonly provider: string,
+    readonly url: string,
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ImageSourceError';
+  }
+}
+
+// Raised when every provider failed; `attempts` holds each provider's last error
+export class ImageLoadError extends Error {
+  constructor(readonly src: string, readonly attempts: ImageSourceError[]) {
+    super(
+      attempts.length
+        ? `Failed to load image (${attempts.map(a => `${a.provider}: ${a.message}`).join('; ')})`
+        : 'Failed to load image (no image source available)'
+    );
+    this.name = 'ImageLoadError';
+  }
+}
+
+export interface ImageSourceProvider {
+  id: string;
+  // The URL this provider would fetch for `src`, or null if it does not apply
+  resolve: (src: string) => string | null;
+}
+
+export interface ImageFetchOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number; // Extra attempts per provider for transient failures
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 1;
+const RETRY_DELAY_MS = 500;
+
+const isLocalSrc = (src: string) => src.startsWith('blob:') || src.startsWith('data:');
+const isRemoteSrc = (src: string) => /^https?:\/\//i.test(src);
+
+// --- Providers ---
+
+// Fetch the image directly; works for CORS-enabled hosts, blob: and data: URLs
+export const directProvider: ImageSourceProvider = {
+  id: 'direct',
+  resolve: (src) => src
+};
+
+// Route remote images through a proxy; `{url}` is replaced with the encoded source URL
+export const createProxyProvider = (template: string, id = 'proxy'): ImageSourceProvider => ({
+  id,
+  resolve: (src) => (isRemoteSrc(src) ? template.replace('{url}', encodeURIComponent(src)) : null)
+});
+
+// Same-origin proxy served by the Vite dev server (see vite.config.ts)
+export const DEV_PROXY_ROUTE = '/__image-proxy';
+export const devProxyProvider = createProxyProvider(`${DEV_PROXY_ROUTE}?url={url}`, 'dev-proxy');
+
+// Remote URL -> local asset path, for images shipped with the app (offline / intranet).
+// Filled from the catalog manifests' "localUrl" fields (services/catalog.ts).
+const bundledImages = new Map<string, string>();
+
+export const registerBundledImage = (remoteUrl: string, assetUrl: string) => {
+  bundledImages.set(remoteUrl, assetUrl);
+};
+
+export const bundledProvider: ImageSourceProvider = {
+  id: 'bundled',
+  resolve: (src) => bundledImages.get(src) ?? null
+};
+
+export const DEFAULT_PROXY_TEMPLATE = 'https://wsrv.nl/?url={url}&output=jpg';
+
+// Provider order comes from IMAGE_SOURCES (comma separated ids), e.g. "bundled,dev-proxy,direct,proxy"
+const buildProviders = (): ImageSourceProvider[] => {
+  const available: Record<string, ImageSourceProvider> = {
+    bundled: bundledProvider,
+    direct: directProvider,
+    proxy: createProxyProvider(process.env.IMAGE_PROXY_TEMPLATE || DEFAULT_PROXY_TEMPLATE)
+  };
+  if (process.env.IMAGE_DEV_PROXY) available['dev-proxy'] = devProxyProvider;
+
+  const order = (process.env.IMAGE_SOURCES || 'bundled,dev-proxy,direct,proxy')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  return order.flatMap(id => (available[id] ? [available[id]] : []));
+};
+
+let providers: ImageSourceProvider[] | null = null;
+
+export const getImageSourceProviders = (): ImageSourceProvider[] => (providers ??= buildProviders());
+
+export const setImageSourceProviders = (next: ImageSourceProvider[]) => {
+  providers = next;
+};
+
+// --- Fetching ---
+
+// Retry backoff that ends early (rejecting with an AbortError) when `signal` aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cancelled = () => new DOMException('Image loading cancelled', 'AbortError');
+    if (signal?.aborted) {
+      reject(cancelled());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const fetchOnce = async (
+  provider: ImageSourceProvider,
+  url: string,
+  signal: AbortSignal | undefined,
+  timeoutMs: number
+): Promise<Blob> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { mode: 'cors', signal: controller.signal });
+    if (!response.ok) {
+      throw new ImageSourceError('http', provider.id, url, `HTTP ${response.status}`, response.status);
+    }
+
+    const blob = await response.blob();
+    // Proxies sometimes answer 200 with an HTML error page
+    if (blob.type && !blob.type.startsWith('image/')) {
+      throw new ImageSourceError('not-image', provider.id, url, `unexpected content type ${blob.type}`);
+    }
+    return blob;
+  } catch (err) {
+    if (err instanceof ImageSourceError) throw err;
+    if (signal?.aborted) throw new ImageSourceError('aborted', provider.id, url, 'cancelled');
+    if (timedOut) throw new ImageSourceError('timeout', provider.id, url, `timed out after ${timeoutMs}ms`);
+    throw new ImageSourceError('network', provider.id, url, 'network or CORS error');
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const isTransient = (err: ImageSourceError) =>
+  err.kind === 'timeout' || err.kind === 'network' || (err.kind === 'http' && (err.status ?? 0) >= 500);
+
+// Try each provider in order until one returns an image Blob
+export const fetchImage = async (src: string, options: ImageFetchOptions = {}): Promise<Blob> => {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+  const attempts: ImageSourceError[] = [];
+
+  // Session-local URLs never need (or survive) a proxy
+  const candidates = isLocalSrc(src) ? [directProvider] : getImageSourceProviders();
+
+  for (const provider of candidates) {
+    const url = provider.resolve(src);
+    if (!url) continue;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      try {
+        return await fetchOnce(provider, url, signal, timeoutMs);
+      } catch (err) {
+        const error = err as ImageSourceError;
+        if (error.kind === 'aborted') throw new DOMException('Image loading cancelled', 'AbortError');
+
+        if (!isTransient(error) || attempt === retries) {
+          console.warn(`Image source "${provider.id}" failed for ${src}: ${error.message}`);
+          attempts.push(error);
+          break;
+        }
+        await sleep(RETRY_DELAY_MS * (attempt + 1), signal);
+      }
+    }
+  }
+
+  throw new ImageLoadError(src, attempts);
+};
@@ -0,0 +1,98 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+// All object stores are declared here so schema upgrades live in one place.
+
+const DB_NAME = 'artparticle-3d';
+const DB_VERSION = 4;
+
+export const STORES = {
+  geometry: 'geometry',         // key -> particle buffers
+  geometryMeta: 'geometryMeta', // key -> { bytes, lastAccess } (kept apart so eviction never loads buffers)
+  imageHashes: 'imageHashes',   // src -> content hash
+  audioFiles: 'audioFiles',     // id -> user-supplied audio file (Blob + title/artist)
+  insights: 'insights',         // painting/model key -> AI analysis with its creation time
+  uploads: 'uploads'            // id -> user-uploaded image (Blob + title/artist/year)
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  if (!isIndexedDbAvailable()) return Promise.reject(new Error("IndexedDB is not available"));
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.geometry)) {
+        db.createObjectStore(STORES.geometry, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORES.geometryMeta)) {
+        const meta = db.createObjectStore(STORES.geometryMeta, { keyPath: 'key' });
+        meta.createIndex('lastAccess', 'lastAccess');
+      }
+      if (!db.objectStoreNames.contains(STORES.imageHashes)) {
+        db.createObjectStore(STORES.imageHashes, { keyPath: 'src' });
+      }
+      if (!db.objectStoreNames.contains(STORES.audioFiles)) {
+        db.createObjectStore(STORES.audioFiles, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.insights)) {
+        db.createObjectStore(STORES.insights, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORES.uploads)) {
+        db.createObjectStore(STORES.uploads, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Run `work` inside a transaction and resolve with its result once the transaction commits
+export const withStores = async <T>(
+  names: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(names, mode);
+  const done = transactionDone(tx);
+  try {
+    const result = await work(tx);
+    await done;
+    return result;
+  } catch (err) {
+    // `done` rejects as well once the transaction aborts; the error from `work` is the one to report
+    done.catch(() => {});
+    try {
+      tx.abort();
+    } catch {
+      // Already committed or aborted
+    }
+    throw err;
+  }
+};
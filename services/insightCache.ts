@@ -0,0 +1,45 @@
+import { AIResponse } from "../types";
+import { isIndexedDbAvailable, requestToPromise, STORES, withStores } from "./indexedDb";
+
+// Persists AI painting analyses in IndexedDB so switching back to a painting
+// does not re-query the model. Entries expire after INSIGHT_TTL_MS.
+
+export const INSIGHT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface CachedInsight {
+  key: string;
+  response: AIResponse;
+  createdAt: number;
+}
+
+export const getCachedInsight = async (key: string): Promise<AIResponse | null> => {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    const entry = await withStores(STORES.insights, 'readonly', tx =>
+      requestToPromise(tx.objectStore(STORES.insights).get(key) as IDBRequest<CachedInsight | undefined>)
+    );
+    if (!entry) return null;
+
+    if (Date.now() - entry.createdAt > INSIGHT_TTL_MS) {
+      await withStores(STORES.insights, 'readwrite', tx => {
+        tx.objectStore(STORES.insights).delete(key);
+      });
+      return null;
+    }
+    return entry.response;
+  } catch (err) {
+    console.warn("Insight cache read failed", err);
+    return null;
+  }
+};
+
+export const putCachedInsight = async (key: string, response: AIResponse): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await withStores(STORES.insights, 'readwrite', tx => {
+      tx.objectStore(STORES.insights).put({ key, response, createdAt: Date.now() } satisfies CachedInsight);
+    });
+  } catch (err) {
+    console.warn("Insight cache write failed", err);
+  }
+};
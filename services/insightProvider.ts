@@ -0,0 +1,107 @@
+import { ChatMessage, Painting, TrackSummary } from "../types";
+import { ImagePreview } from "./particleLoader";
+
+// Contract between the insight features (analysis, chat) and the model backends.
+// insightService builds prompts, validates output and caches; providers only move
+// text in and out of a model.
+
+export type InsightProviderId = "gemini" | "openai" | "mock";
+
+// Plain JSON Schema, passed through to backends with structured output
+export type JsonSchema = Record<string, unknown>;
+
+export interface InsightRequest {
+  painting: Painting;
+  image: ImagePreview | null;
+  prompt: string;
+  schema: JsonSchema;
+  tracks: TrackSummary[]; // Playlist offered for the music suggestion (already part of the prompt)
+}
+
+export interface ChatRequest {
+  painting: Painting;
+  image: ImagePreview | null; // Attached to the first turn
+  instruction: string;        // System prompt
+  turns: ChatMessage[];       // Conversation so far, ending with the new question
+}
+
+export interface InsightProvider {
+  id: InsightProviderId;
+  label: string;
+  model: string;
+  isConfigured: () => boolean; // False when required credentials are missing
+  // Raw JSON text of one response matching `request.schema`
+  generateJson: (request: InsightRequest, signal?: AbortSignal) => Promise<string>;
+  // Text chunks of the answer, including the CHAT_META_MARKER block
+  streamChat: (request: ChatRequest, signal?: AbortSignal) => AsyncIterable<string>;
+}
+
+// Chat answers end with this marker followed by a JSON object with follow-ups and regions
+export const CHAT_META_MARKER = "<<<META>>>";
+
+// --- Environment ---
+
+// The only place AI settings are read; Vite substitutes these at build time (see vite.config.ts)
+export const INSIGHT_ENV = {
+  provider: process.env.INSIGHT_PROVIDER || "",
+  geminiApiKey: process.env.GEMINI_API_KEY || "",
+  geminiModel: process.env.GEMINI_MODEL || "gemini-2.5-flash",
+  openAiBaseUrl: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+  openAiModel: process.env.OPENAI_MODEL || "llava",
+  openAiApiKey: process.env.OPENAI_API_KEY || ""
+};
+
+// --- Errors & Retries ---
+
+export class InsightHttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "InsightHttpError";
+  }
+}
+
+// Rate limits (429) and overloads (503) are retried with exponential backoff
+const RETRYABLE_STATUS = new Set([429, 500, 503]);
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+
+export const abortError = () => new DOMException("Analysis cancelled", "AbortError");
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// HTTP status of SDK errors (ApiError) and InsightHttpError alike
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+};
+
+export const withBackoff = async <T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+
+      const status = statusOf(error);
+      if (status === undefined || !RETRYABLE_STATUS.has(status) || attempt >= MAX_ATTEMPTS) throw error;
+
+      // 1s, 2s, 4s ... plus jitter so parallel tabs do not retry in lockstep
+      const delay = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250;
+      console.warn(`Insight provider returned ${status}, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,341 @@
+import { Painting, AIResponse, ChatMessage, ParticleConfig, TrackSummary } from "../types";
+import { clampToRange, CONFIG_RANGES, NumericConfigKey } from "./configSchema";
+import { getCachedInsight, putCachedInsight } from "./insightCache";
+import { ImagePreview, isAbortError, loadImagePreview } from "./particleLoader";
+import { parseHighlightRegions } from "./highlightRegions";
+import { isUserUpload } from "./uploadLibrary";
+import { languageName, Locale, translate } from "./i18n";
+import {
+  abortError,
+  CHAT_META_MARKER,
+  INSIGHT_ENV,
+  InsightProvider,
+  InsightProviderId,
+  JsonSchema
+} from "./insightProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createMockInsightProvider } from "./mockInsightProvider";
+
+// Painting analysis and chat on top of a pluggable InsightProvider: prompts,
+// response validation and caching live here, the model backends in *Provider.ts.
+
+// Bump when the shape of AIResponse changes so stale cache entries are not served
+const CACHE_VERSION = 2;
+
+// --- Provider Selection ---
+
+const PROVIDER_KEY = "artparticle3d:insightProvider";
+
+export const INSIGHT_PROVIDERS: InsightProvider[] = [
+  createGeminiProvider(),
+  createOpenAiProvider(),
+  createMockInsightProvider()
+];
+
+const findProvider = (id: string | null) => INSIGHT_PROVIDERS.find(p => p.id === id);
+
+// Saved choice from the settings, then INSIGHT_PROVIDER from the env, then Gemini
+const loadProviderId = (): InsightProviderId => {
+  try {
+    const saved = findProvider(localStorage.getItem(PROVIDER_KEY));
+    if (saved) return saved.id;
+  } catch (err) {
+    console.warn(`Ignoring unreadable localStorage entry "${PROVIDER_KEY}"`, err);
+  }
+  if (INSIGHT_ENV.provider && !findProvider(INSIGHT_ENV.provider)) {
+    console.warn(`Unknown INSIGHT_PROVIDER "${INSIGHT_ENV.provider}", using Gemini`);
+  }
+  return findProvider(INSIGHT_ENV.provider)?.id ?? "gemini";
+};
+
+let currentProvider: InsightProvider = findProvider(loadProviderId()) ?? INSIGHT_PROVIDERS[0];
+
+export const getInsightProvider = (): InsightProvider => currentProvider;
+
+export const setInsightProvider = (id: InsightProviderId) => {
+  const provider = findProvider(id);
+  if (!provider) throw new Error(`Unknown insight provider "${id}"`);
+  currentProvider = provider;
+  try {
+    localStorage.setItem(PROVIDER_KEY, id);
+  } catch (err) {
+    console.warn(`Failed to persist "${PROVIDER_KEY}"`, err);
+  }
+};
+
+// --- Analysis ---
+
+// Sliders the model may suggest values for (morph timing is a user preference, not a look)
+const SUGGESTED_KEYS: NumericConfigKey[] = ["size", "depth", "density", "dispersion", "brightness"];
+
+const buildResponseSchema = (tracks: TrackSummary[]): JsonSchema => ({
+  type: "object",
+  properties: {
+    analysis: {
+      type: "string",
+      description: "A short, engaging paragraph (max 80 words) describing the visual style, brushwork, and significance."
+    },
+    mood: {
+      type: "string",
+      description: "A 3-word mood summary, e.g. \"Melancholic, Vibrant, Swirling\"."
+    },
+    suggestedConfig: {
+      type: "object",
+      properties: {
+        ...Object.fromEntries(SUGGESTED_KEYS.map(key => [key, {
+          type: "number",
+          minimum: CONFIG_RANGES[key].min,
+          maximum: CONFIG_RANGES[key].max
+        }])),
+        useSemanticDepth: { type: "boolean" }
+      },
+      required: SUGGESTED_KEYS
+    },
+    suggestedMusic: {
+      type: "object",
+      properties: {
+        mood: { type: "string", description: "The kind of music that suits the work, in a few words." },
+        // An empty enum is rejected by some backends, so the field only exists when there is something to pick
+        ...(tracks.length > 0 ? { trackId: { type: "string", enum: tracks.map(t => t.id) } } : {})
+      },
+      required: ["mood"]
+    }
+  },
+  required: ["analysis", "mood"]
+});
+
+// Suggestions are extras: invalid ones are dropped instead of failing the whole analysis
+const parseSuggestedConfig = (value: unknown): Partial<ParticleConfig> | undefined => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return undefined;
+  const input = value as Record<string, unknown>;
+  const result: Partial<ParticleConfig> = {};
+
+  SUGGESTED_KEYS.forEach((key) => {
+    const field = input[key];
+    if (typeof field === "number" && Number.isFinite(field)) result[key] = clampToRange(key, field);
+  });
+  if (typeof input.useSemanticDepth === "boolean") result.useSemanticDepth = input.useSemanticDepth;
+
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+const parseSuggestedMusic = (value: unknown, tracks: TrackSummary[]): AIResponse["suggestedMusic"] => {
+  if (typeof value !== "object" || value === null) return undefined;
+  const { mood, trackId } = value as Record<string, unknown>;
+  if (typeof mood !== "string" || !mood.trim()) return undefined;
+
+  const track = tracks.find(t => t.id === trackId);
+  return track ? { mood: mood.trim(), trackId: track.id } : { mood: mood.trim() };
+};
+
+// Runtime check of the model output; the schema is a request, not a guarantee
+const parseAIResponse = (text: string, tracks: TrackSummary[]): AIResponse => {
+  const value: unknown = JSON.parse(text);
+  if (typeof value !== "object" || value === null) throw new Error("Insight response is not a JSON object");
+
+  const { analysis, mood, suggestedConfig, suggestedMusic } = value as Record<string, unknown>;
+  if (typeof analysis !== "string" || !analysis.trim()) throw new Error("Insight response is missing \"analysis\"");
+  if (typeof mood !== "string" || !mood.trim()) throw new Error("Insight response is missing \"mood\"");
+
+  const result: AIResponse = { analysis: analysis.trim(), mood: mood.trim() };
+  const config = parseSuggestedConfig(suggestedConfig);
+  const music = parseSuggestedMusic(suggestedMusic, tracks);
+  if (config) result.suggestedConfig = config;
+  if (music) result.suggestedMusic = music;
+  return result;
+};
+
+// Uploads get a new blob: URL every session, so they are cached under their stable upload id.
+// Other session-only URLs are never seen again, so their analyses are not cached.
+const isCacheable = (painting: Painting) =>
+  isUserUpload(painting) || (!painting.url.startsWith("blob:") && !painting.url.startsWith("data:"));
+
+const cacheSource = (painting: Painting) => (isUserUpload(painting) ? "upload" : painting.url);
+
+const describeRanges = () =>
+  SUGGESTED_KEYS.map(key => `${key} ${CONFIG_RANGES[key].min}-${CONFIG_RANGES[key].max}`).join(", ");
+
+const describeSubject = (painting: Painting) =>
+  isUserUpload(painting)
+    ? `the attached image "${painting.title}"${painting.artist ? ` by ${painting.artist}` : ""}, uploaded by the user (it may be a photo or an artwork)`
+    : `the painting "${painting.title}" by ${painting.artist} (${painting.year})`;
+
+const buildPrompt = (painting: Painting, hasImage: boolean, tracks: TrackSummary[], locale: Locale): string => {
+  const subject = describeSubject(painting);
+  const grounding = hasImage
+    ? "Base your description on what is actually visible in the attached image: palette, composition, textures and light."
+    : "";
+  const playlist = tracks.length > 0
+    ? `Pick "trackId" from this playlist: ${tracks.map(t => `${t.id} ("${t.title}" by ${t.artist})`).join("; ")}.`
+    : "";
+
+  return `
+      Analyze ${subject}.
+      ${grounding}
+      Provide a JSON response with these fields:
+      1. "analysis": A short, engaging paragraph (max 80 words) describing the visual style, brushwork, and significance.
+      2. "mood": A 3-word mood summary (e.g., "Melancholic, Vibrant, Swirling").
+      3. "suggestedConfig": Particle settings that suit the work when it is rendered as a 3D point cloud
+         (ranges: ${describeRanges()}). Calm, flat works want little depth and dispersion; energetic,
+         textured ones more. "useSemanticDepth" separates foreground subjects from the background.
+      4. "suggestedMusic": "mood" describes music that fits the work. ${playlist}
+      Write "analysis", "mood" and the music "mood" in ${languageName(locale)}; keep JSON keys and ids as they are.
+    `;
+};
+
+// The image is optional for catalog paintings (the model knows them by name) but required for uploads
+const loadPreview = async (painting: Painting, signal?: AbortSignal): Promise<ImagePreview | null> => {
+  try {
+    return await loadImagePreview(painting.url, { signal });
+  } catch (error) {
+    if (signal?.aborted || isAbortError(error) || isUserUpload(painting)) throw error;
+    console.warn("Analyzing without image: preview failed to load", error);
+    return null;
+  }
+};
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal;
+  tracks?: TrackSummary[]; // Playlist the suggested music is picked from
+  locale?: Locale;         // Language of the generated text
+}
+
+// Analyze a painting from its pixels (downscaled JPEG) plus its metadata, served from
+// the IndexedDB cache when a fresh entry exists.
+// Rejects with an AbortError if `signal` aborts; other failures resolve to a fallback message.
+export const analyzePainting = async (painting: Painting, { signal, tracks = [], locale = "en" }: AnalyzeOptions = {}): Promise<AIResponse> => {
+  const provider = currentProvider;
+
+  if (!provider.isConfigured()) {
+    return {
+      analysis: translate(locale, "insight.notConfigured"),
+      mood: translate(locale, "insight.notConfiguredMood")
+    };
+  }
+
+  // The mock is instant and deterministic, so it never needs (or pollutes) the cache
+  const cacheable = isCacheable(painting) && provider.id !== "mock";
+  const cacheKey = `${provider.id}:${provider.model}|v${CACHE_VERSION}|${locale}|${painting.id}|${cacheSource(painting)}`;
+  const cached = cacheable ? await getCachedInsight(cacheKey) : null;
+  if (signal?.aborted) throw abortError();
+  if (cached) return cached;
+
+  try {
+    const image = await loadPreview(painting, signal);
+    const text = await provider.generateJson({
+      painting,
+      image,
+      prompt: buildPrompt(painting, Boolean(image), tracks, locale),
+      schema: buildResponseSchema(tracks),
+      tracks
+    }, signal);
+    const result = parseAIResponse(text, tracks);
+    if (cacheable) await putCachedInsight(cacheKey, result);
+    return result;
+  } catch (error) {
+    if (signal?.aborted) throw abortError();
+    console.error(`Insight analysis failed (${provider.label})`, error);
+    return {
+      analysis: translate(locale, "insight.unavailable"),
+      mood: translate(locale, "insight.unknownMood")
+    };
+  }
+};
+
+// --- Chat ---
+
+// The chat re-sends the image with every turn; keep the last preview instead of re-encoding it
+let lastPreview: { url: string; preview: ImagePreview | null } | null = null;
+
+const loadChatPreview = async (painting: Painting, signal?: AbortSignal): Promise<ImagePreview | null> => {
+  if (lastPreview?.url === painting.url) return lastPreview.preview;
+  const preview = await loadPreview(painting, signal);
+  lastPreview = { url: painting.url, preview };
+  return preview;
+};
+
+const buildChatInstruction = (painting: Painting, hasImage: boolean, locale: Locale): string => `
+      You are a museum guide chatting with a visitor about ${describeSubject(painting)}.
+      ${hasImage ? "The image is attached to the first message; ground your answers in what is visible." : ""}
+      Answer conversationally in ${languageName(locale)}, in at most 120 words of plain text (no markdown).
+      After the answer, output a line containing only ${CHAT_META_MARKER} followed by a JSON object:
+      {"followUps": [up to 3 short questions the visitor might ask next],
+       "regions": [{"label": "...", "box_2d": [ymin, xmin, ymax, xmax]}]}
+      "regions" lists up to 4 parts of the image your answer refers to, with coordinates normalized to 0-1000.
+      Leave it empty when the answer is not about a specific part of the image.
+      Write follow-ups and region labels in ${languageName(locale)} as well.
+    `;
+
+// Text the user should see so far: everything before the marker, minus a marker that is still arriving
+const visibleChatText = (raw: string): string => {
+  const index = raw.indexOf(CHAT_META_MARKER);
+  if (index >= 0) return raw.slice(0, index).trimEnd();
+  for (let n = Math.min(raw.length, CHAT_META_MARKER.length - 1); n > 0; n--) {
+    if (CHAT_META_MARKER.startsWith(raw.slice(-n))) return raw.slice(0, -n).trimEnd();
+  }
+  return raw;
+};
+
+const parseChatReply = (raw: string): ChatMessage => {
+  const text = visibleChatText(raw).trim();
+  if (!text) throw new Error("The model returned an empty answer");
+
+  const message: ChatMessage = { role: "model", text };
+  const index = raw.indexOf(CHAT_META_MARKER);
+  if (index < 0) return message;
+
+  try {
+    // Models sometimes wrap the JSON in a code fence
+    const json = raw.slice(index + CHAT_META_MARKER.length).replace(/```(?:json)?/g, "");
+    const meta = JSON.parse(json) as Record<string, unknown>;
+    const regions = parseHighlightRegions(meta.regions);
+    const followUps = Array.isArray(meta.followUps)
+      ? meta.followUps.filter((q): q is string => typeof q === "string" && q.trim() !== "").map(q => q.trim()).slice(0, 3)
+      : [];
+    if (regions.length > 0) message.regions = regions;
+    if (followUps.length > 0) message.followUps = followUps;
+  } catch (error) {
+    console.warn("Ignoring malformed chat metadata", error);
+  }
+  return message;
+};
+
+export interface ChatOptions {
+  signal?: AbortSignal;
+  locale?: Locale; // Language of the answer and follow-ups
+  onText?: (text: string) => void; // Called with the visible answer so far as chunks stream in
+}
+
+// Ask a follow-up question about a painting, streaming the answer.
+// `history` is the conversation so far (without the new question).
+// Rejects with an AbortError if `signal` aborts and with an Error on any other failure.
+export const askAboutPainting = async (
+  painting: Painting,
+  history: ChatMessage[],
+  question: string,
+  { signal, locale = "en", onText }: ChatOptions = {}
+): Promise<ChatMessage> => {
+  const provider = currentProvider;
+  if (!provider.isConfigured()) throw new Error(`${provider.label} is not configured`);
+
+  try {
+    const image = await loadChatPreview(painting, signal);
+    const chunks = provider.streamChat({
+      painting,
+      image,
+      instruction: buildChatInstruction(painting, Boolean(image), locale),
+      turns: [...history, { role: "user", text: question }]
+    }, signal);
+
+    let raw = "";
+    for await (const chunk of chunks) {
+      raw += chunk;
+      onText?.(visibleChatText(raw));
+    }
+    return parseChatReply(raw);
+  } catch (error) {
+    if (signal?.aborted) throw abortError();
+    throw error;
+  }
+};
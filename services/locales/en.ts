@@ -0,0 +1,216 @@
+// English strings; the source of truth for the message keys (see services/i18n.ts)
+export const en = {
+  // App
+  'app.subtitle': 'Masterpieces in Particles',
+  'app.sharedImage': 'Shared Image',
+  'app.unknownArtist': 'Unknown',
+  'app.customUpload': 'Custom Upload',
+  'app.language': 'Language',
+
+  // Insight
+  'insight.title': 'AI Insight',
+  'insight.provider': 'Insight provider',
+  'insight.missingKey': 'API key not configured. Set GEMINI_API_KEY in the environment to enable Gemini analysis.',
+  'insight.notConfigured': 'Gemini API key is not configured. Set GEMINI_API_KEY to enable live insights.',
+  'insight.notConfiguredMood': 'API key missing',
+  'insight.napping': 'The AI is taking a nap. Try again later!',
+  'insight.nappingMood': 'Sleepy',
+  'insight.unavailable': 'Could not retrieve analysis at this time. Please try again later.',
+  'insight.unknownMood': 'Unknown',
+  'insight.mood': 'Mood: {mood}',
+  'insight.apply': 'Apply AI suggestion',
+  'insight.applyHint': 'Apply the suggested particle settings and music',
+  'insight.analyzing': 'Analyzing masterpiece...',
+
+  // Chat
+  'chat.starterLook': 'Where should I look first?',
+  'chat.starterTechnique': 'How was this made?',
+  'chat.starterStory': 'What is the story behind it?',
+  'chat.placeholder': 'Ask about this painting...',
+  'chat.ask': 'Ask',
+  'chat.clear': 'Clear this conversation',
+  'chat.thinking': 'Thinking...',
+  'chat.highlight': 'Highlight this region',
+  'chat.region': 'Region {n}',
+  'chat.all': 'All',
+  'chat.failed': 'Could not get an answer',
+
+  // Gallery
+  'gallery.search': 'Search title, artist, museum or tag...',
+  'gallery.allCollections': 'All collections',
+  'gallery.myImages': 'My images',
+  'gallery.noResults': 'No paintings match these filters',
+
+  // Uploads
+  'upload.dropHint': 'Drop images to add them to the gallery',
+  'upload.notImage': '"{name}" is not an image',
+  'upload.tooLarge': '"{name}" is too large ({size} MB, the limit is {max} MB)',
+  'upload.unreadable': '"{name}" could not be read as an image',
+  'upload.downscaled': '"{name}" was downscaled from {from} to {to} pixels',
+  'upload.failed': 'The images could not be imported ({message})',
+  'upload.notSaved': '{count} image(s) could not be saved in this browser and will be gone after a reload',
+  'upload.title': 'Title',
+  'upload.artist': 'Artist',
+  'upload.year': 'Year',
+  'upload.delete': 'Delete upload',
+  'upload.dismiss': 'Dismiss',
+
+  // Exhibition
+  'exhibition.title': 'Exhibition',
+  'exhibition.wall': 'Wall',
+  'exhibition.ring': 'Ring',
+  'exhibition.grid': 'Grid',
+  'exhibition.hint': 'Click a painting to fly to it. Distant paintings are drawn with fewer particles.',
+  'exhibition.limit': 'Only the first {max} paintings are shown.',
+  'exhibition.show': 'Show "{title}"',
+  'exhibition.overrides': 'Overrides for this painting',
+  'exhibition.reset': 'Reset',
+
+  // Brushes
+  'brush.title': 'Brush',
+  'brush.off': 'Off',
+  'brush.repel': 'Repel',
+  'brush.attract': 'Attract',
+  'brush.vortex': 'Vortex',
+  'brush.smear': 'Smear',
+  'brush.hint': 'Move the pointer over the painting; particles spring back when it moves on.',
+  'brush.radius': 'Radius',
+  'brush.strength': 'Strength',
+
+  // Tours
+  'tour.title': 'Tour',
+  'tour.duration': '{seconds}s',
+  'tour.empty': 'Frame a view and add it as a keyframe; the tour moves between keyframes in order.',
+  'tour.time': 'Seconds from the start',
+  'tour.preview': 'Go to this keyframe',
+  'tour.easing': 'Easing into this keyframe',
+  'tour.remove': 'Remove keyframe',
+  'tour.missingPainting': 'Missing painting',
+  'tour.addKeyframe': '+ Keyframe',
+  'tour.play': 'Play',
+  'tour.stop': 'Stop',
+  'tour.loop': 'Loop',
+  'tour.syncToAudio': 'Follow the music track time',
+  'tour.autoplay': 'Play on startup (kiosk)',
+  'tour.save': 'Save',
+  'tour.load': 'Load',
+
+  // Presets
+  'preset.label': 'Preset',
+  'preset.modified': 'modified',
+  'preset.custom': 'Custom',
+  'preset.builtIn': 'Built-in',
+  'preset.saved': 'Saved',
+  'preset.default': 'Default',
+  'preset.relief': 'Relief',
+  'preset.nebula': 'Nebula',
+  'preset.flatPrint': 'Flat print',
+  'preset.namePlaceholder': 'Preset name',
+  'preset.save': 'Save',
+  'preset.delete': 'Delete',
+  'preset.export': 'Export',
+  'preset.import': 'Import',
+  'preset.autoApply': 'Auto-apply to "{title}"',
+  'preset.savedMessage': 'Saved "{name}"',
+  'preset.deletedMessage': 'Deleted "{name}"',
+  'preset.importedMessage': 'Imported {count} preset(s)',
+
+  // Audio routing
+  'routing.title': 'Audio Reactivity ({count} routes)',
+  'routing.hint': 'Each route adds curve(source) × gain + offset to its target.',
+  'routing.beat': 'Beat',
+  'routing.energy': 'Energy',
+  'routing.wave': 'Wave',
+  'routing.linear': 'Linear',
+  'routing.easeIn': 'Ease in (x²)',
+  'routing.easeOut': 'Ease out (√x)',
+  'routing.smooth': 'Smoothstep',
+  'routing.inverted': 'Inverted',
+  'routing.gain': 'Gain',
+  'routing.offset': 'Offset',
+  'routing.remove': 'Remove route',
+  'routing.add': '+ Add route',
+  'routing.reset': 'Reset',
+
+  // Export
+  'export.title': 'Export',
+  'export.customSize': 'Custom…',
+  'export.transparent': 'Transparent background',
+  'export.rendering': 'Rendering…',
+  'export.image': 'Export image',
+  'export.savedImage': 'Saved {width}×{height} PNG',
+  'export.realtime': 'Real-time',
+  'export.offline': 'Offline (frame-by-frame)',
+  'export.fps': '{fps} fps',
+  'export.duration': 'Duration (s)',
+  'export.orbit': 'Camera orbit',
+  'export.offlineHint': 'Offline mode steps time exactly per frame and records video only.',
+  'export.record': 'Record video',
+  'export.stop': 'Stop ({percent}%)',
+  'export.savedVideo': 'Saved {seconds}s WebM',
+  'export.cancelled': 'Recording cancelled',
+  'export.plyBinary': 'PLY (binary)',
+  'export.plyAscii': 'PLY (ASCII)',
+  'export.glb': 'glTF (.glb)',
+  'export.xyz': 'XYZRGB (.xyz)',
+  'export.snapshot': 'Snapshot current animation',
+  'export.pointCloud': 'Export point cloud',
+  'export.savedPointCloud': 'Saved {count} points as {format}',
+
+  // Visualization controls
+  'controls.upload': '+ Upload',
+  'controls.visualization': 'Visualization',
+  'controls.brightness': 'Brightness',
+  'controls.depth': '3D Depth',
+  'controls.semanticDepth': 'Semantic Depth',
+  'controls.density': 'Point Density',
+  'controls.densityHint': 'Higher density may reduce performance',
+  'controls.size': 'Particle Size',
+  'controls.dispersion': 'Dispersion',
+  'controls.morphDuration': 'Morph Duration',
+  'controls.sampling': 'Sampling {percent}%',
+  'controls.hint': 'Drag to Rotate • Scroll to Zoom',
+  'easing.easeInOutCubic': 'Ease In-Out (Cubic)',
+  'easing.easeInOutSine': 'Ease In-Out (Sine)',
+  'easing.easeOutExpo': 'Ease Out (Expo)',
+  'easing.linear': 'Linear',
+  'cache.title': 'Geometry Cache',
+  'cache.clear': 'Clear cache',
+  'cache.memory': 'Memory {used} / {budget} ({entries})',
+  'cache.disk': 'Disk {used} / {budget} ({entries})',
+  'cache.diskUnavailable': 'Disk unavailable',
+  'cache.stats': 'Hits {hits} • Misses {misses} • Evicted {evicted}',
+
+  // Audio
+  'audio.title': 'Audio Symphony',
+  'audio.playlist': 'Playlist',
+  'audio.mic': 'Mic / Line-in',
+  'audio.emptyPlaylist': 'Playlist is empty',
+  'audio.addFilesHint': 'Add audio files below',
+  'audio.defaultInput': 'Default input',
+  'audio.input': 'Input {n}',
+  'audio.startListening': 'Start listening',
+  'audio.stopListening': 'Stop listening',
+  'audio.micDenied': 'Microphone permission denied',
+  'audio.micFailed': 'Could not open audio input',
+  'audio.live': '● LIVE',
+  'audio.notListening': 'Not listening',
+  'audio.playlistCount': 'Playlist ({count})',
+  'audio.moveUp': 'Move up',
+  'audio.moveDown': 'Move down',
+  'audio.remove': 'Remove',
+  'audio.addFiles': '+ Add audio files',
+  'audio.localFile': 'Local file',
+  'audio.restoreBuiltIns': 'Restore built-ins',
+  'audio.analysis': 'Analysis',
+  'audio.bandLow': 'Bass',
+  'audio.bandMid': 'Mids',
+  'audio.bandHigh': 'Treble',
+  'audio.attack': 'Attack',
+  'audio.release': 'Release',
+  'audio.beatSensitivity': 'Beat Sensitivity',
+  'audio.autoGain': 'Auto-gain',
+  'audio.resetAnalysis': 'Reset analysis'
+};
+
+export type Messages = Record<keyof typeof en, string>;
@@ -0,0 +1,215 @@
+import { Messages } from './en';
+
+export const zhCN: Messages = {
+  // App
+  'app.subtitle': '名画粒子',
+  'app.sharedImage': '分享的图片',
+  'app.unknownArtist': '未知',
+  'app.customUpload': '自定义上传',
+  'app.language': '语言',
+
+  // Insight
+  'insight.title': 'AI 解读',
+  'insight.provider': '分析服务',
+  'insight.missingKey': '未配置 API Key。请在环境变量中设置 GEMINI_API_KEY 以启用 Gemini 分析。',
+  'insight.notConfigured': '未配置 Gemini API Key。请设置 GEMINI_API_KEY 以启用实时解读。',
+  'insight.notConfiguredMood': '未配置 API Key',
+  'insight.napping': 'AI 正在小憩，请稍后再试！',
+  'insight.nappingMood': '困倦',
+  'insight.unavailable': '暂时无法获取分析，请稍后再试。',
+  'insight.unknownMood': '未知',
+  'insight.mood': '情绪：{mood}',
+  'insight.apply': '应用 AI 建议',
+  'insight.applyHint': '应用建议的粒子参数和音乐',
+  'insight.analyzing': '正在解读名画……',
+
+  // Chat
+  'chat.starterLook': '我应该先看哪里？',
+  'chat.starterTechnique': '这幅作品是怎么画成的？',
+  'chat.starterStory': '它背后有什么故事？',
+  'chat.placeholder': '问问这幅画……',
+  'chat.ask': '提问',
+  'chat.clear': '清空本次对话',
+  'chat.thinking': '思考中……',
+  'chat.highlight': '高亮此区域',
+  'chat.region': '区域 {n}',
+  'chat.all': '全部',
+  'chat.failed': '未能获取回答',
+
+  // Gallery
+  'gallery.search': '搜索标题、艺术家、博物馆或标签...',
+  'gallery.allCollections': '全部收藏',
+  'gallery.myImages': '我的图片',
+  'gallery.noResults': '没有符合筛选条件的作品',
+
+  // Uploads
+  'upload.dropHint': '拖放图片以添加到画廊',
+  'upload.notImage': '“{name}”不是图片',
+  'upload.tooLarge': '“{name}”太大（{size} MB，上限为 {max} MB）',
+  'upload.unreadable': '无法将“{name}”读取为图片',
+  'upload.downscaled': '“{name}”已从 {from} 缩小到 {to} 像素',
+  'upload.failed': '无法导入这些图片（{message}）',
+  'upload.notSaved': '{count} 张图片无法保存在此浏览器中，刷新后将会丢失',
+  'upload.title': '标题',
+  'upload.artist': '艺术家',
+  'upload.year': '年份',
+  'upload.delete': '删除上传',
+  'upload.dismiss': '关闭',
+
+  // Exhibition
+  'exhibition.title': '展览',
+  'exhibition.wall': '墙面',
+  'exhibition.ring': '环形',
+  'exhibition.grid': '网格',
+  'exhibition.hint': '点击作品即可飞到它面前。远处的作品会以较少的粒子绘制。',
+  'exhibition.limit': '仅显示前 {max} 幅作品。',
+  'exhibition.show': '显示“{title}”',
+  'exhibition.overrides': '此作品的单独设置',
+  'exhibition.reset': '重置',
+
+  // Brushes
+  'brush.title': '笔刷',
+  'brush.off': '关闭',
+  'brush.repel': '排斥',
+  'brush.attract': '吸引',
+  'brush.vortex': '漩涡',
+  'brush.smear': '涂抹',
+  'brush.hint': '将指针移到作品上；指针移开后粒子会弹回原位。',
+  'brush.radius': '半径',
+  'brush.strength': '强度',
+
+  // Tours
+  'tour.title': '导览',
+  'tour.duration': '{seconds} 秒',
+  'tour.empty': '调整好视角后添加为关键帧；导览会按顺序在关键帧之间移动。',
+  'tour.time': '距开始的秒数',
+  'tour.preview': '跳到此关键帧',
+  'tour.easing': '进入此关键帧的缓动',
+  'tour.remove': '删除关键帧',
+  'tour.missingPainting': '作品不存在',
+  'tour.addKeyframe': '+ 关键帧',
+  'tour.play': '播放',
+  'tour.stop': '停止',
+  'tour.loop': '循环',
+  'tour.syncToAudio': '跟随音乐曲目时间',
+  'tour.autoplay': '启动时自动播放（展台）',
+  'tour.save': '保存',
+  'tour.load': '载入',
+
+  // Presets
+  'preset.label': '预设',
+  'preset.modified': '已修改',
+  'preset.custom': '自定义',
+  'preset.builtIn': '内置',
+  'preset.saved': '已保存',
+  'preset.default': '默认',
+  'preset.relief': '浮雕',
+  'preset.nebula': '星云',
+  'preset.flatPrint': '平面印刷',
+  'preset.namePlaceholder': '预设名称',
+  'preset.save': '保存',
+  'preset.delete': '删除',
+  'preset.export': '导出',
+  'preset.import': '导入',
+  'preset.autoApply': '自动应用于“{title}”',
+  'preset.savedMessage': '已保存“{name}”',
+  'preset.deletedMessage': '已删除“{name}”',
+  'preset.importedMessage': '已导入 {count} 个预设',
+
+  // Audio routing
+  'routing.title': '音频响应（{count} 条路由）',
+  'routing.hint': '每条路由把 曲线(来源) × 增益 + 偏移 叠加到目标上。',
+  'routing.beat': '节拍',
+  'routing.energy': '能量',
+  'routing.wave': '波动',
+  'routing.linear': '线性',
+  'routing.easeIn': '缓入（x²）',
+  'routing.easeOut': '缓出（√x）',
+  'routing.smooth': '平滑阶梯',
+  'routing.inverted': '反转',
+  'routing.gain': '增益',
+  'routing.offset': '偏移',
+  'routing.remove': '删除路由',
+  'routing.add': '+ 添加路由',
+  'routing.reset': '重置',
+
+  // Export
+  'export.title': '导出',
+  'export.customSize': '自定义…',
+  'export.transparent': '透明背景',
+  'export.rendering': '渲染中…',
+  'export.image': '导出图片',
+  'export.savedImage': '已保存 {width}×{height} PNG',
+  'export.realtime': '实时',
+  'export.offline': '离线（逐帧）',
+  'export.fps': '{fps} 帧/秒',
+  'export.duration': '时长（秒）',
+  'export.orbit': '相机环绕',
+  'export.offlineHint': '离线模式逐帧精确推进时间，只录制画面（无声音）。',
+  'export.record': '录制视频',
+  'export.stop': '停止（{percent}%）',
+  'export.savedVideo': '已保存 {seconds} 秒 WebM',
+  'export.cancelled': '录制已取消',
+  'export.plyBinary': 'PLY（二进制）',
+  'export.plyAscii': 'PLY（ASCII）',
+  'export.glb': 'glTF（.glb）',
+  'export.xyz': 'XYZRGB（.xyz）',
+  'export.snapshot': '快照当前动画',
+  'export.pointCloud': '导出点云',
+  'export.savedPointCloud': '已保存 {count} 个点，格式为 {format}',
+
+  // Visualization controls
+  'controls.upload': '+ 上传',
+  'controls.visualization': '视觉效果',
+  'controls.brightness': '亮度',
+  'controls.depth': '3D 深度',
+  'controls.semanticDepth': '语义深度',
+  'controls.density': '粒子密度',
+  'controls.densityHint': '密度越高，性能开销越大',
+  'controls.size': '粒子大小',
+  'controls.dispersion': '离散度',
+  'controls.morphDuration': '过渡时长',
+  'controls.sampling': '采样中 {percent}%',
+  'controls.hint': '拖动旋转 • 滚轮缩放',
+  'easing.easeInOutCubic': '缓入缓出（三次）',
+  'easing.easeInOutSine': '缓入缓出（正弦）',
+  'easing.easeOutExpo': '缓出（指数）',
+  'easing.linear': '线性',
+  'cache.title': '几何缓存',
+  'cache.clear': '清除缓存',
+  'cache.memory': '内存 {used} / {budget}（{entries}）',
+  'cache.disk': '磁盘 {used} / {budget}（{entries}）',
+  'cache.diskUnavailable': '磁盘不可用',
+  'cache.stats': '命中 {hits} • 未命中 {misses} • 淘汰 {evicted}',
+
+  // Audio
+  'audio.title': '音频交响',
+  'audio.playlist': '播放列表',
+  'audio.mic': '麦克风 / 线路输入',
+  'audio.emptyPlaylist': '播放列表为空',
+  'audio.addFilesHint': '请在下方添加音频文件',
+  'audio.defaultInput': '默认输入',
+  'audio.input': '输入 {n}',
+  'audio.startListening': '开始收音',
+  'audio.stopListening': '停止收音',
+  'audio.micDenied': '麦克风权限被拒绝',
+  'audio.micFailed': '无法打开音频输入',
+  'audio.live': '● 实时',
+  'audio.notListening': '未在收音',
+  'audio.playlistCount': '播放列表（{count}）',
+  'audio.moveUp': '上移',
+  'audio.moveDown': '下移',
+  'audio.remove': '移除',
+  'audio.addFiles': '+ 添加音频文件',
+  'audio.localFile': '本地文件',
+  'audio.restoreBuiltIns': '恢复内置曲目',
+  'audio.analysis': '分析',
+  'audio.bandLow': '低音',
+  'audio.bandMid': '中音',
+  'audio.bandHigh': '高音',
+  'audio.attack': '起音',
+  'audio.release': '释音',
+  'audio.beatSensitivity': '节拍灵敏度',
+  'audio.autoGain': '自动增益',
+  'audio.resetAnalysis': '重置分析'
+};
@@ -0,0 +1,105 @@
+import { CONFIG_RANGES, NumericConfigKey } from "./configSchema";
+import { CHAT_META_MARKER, InsightProvider, sleep } from "./insightProvider";
+
+// Deterministic offline provider for development and demos: no key, no network.
+// The same painting and question always produce the same output, in the formats
+// the real models are asked for, so parsing, chat streaming and region highlights
+// can all be exercised.
+
+const RESPONSE_DELAY_MS = 400;
+const WORD_DELAY_MS = 25;
+
+const MOODS = ["Serene", "Luminous", "Restless", "Melancholic", "Vibrant", "Dreamlike", "Stormy", "Tender"];
+const STYLES = ["layered, visible brushwork", "smooth glazes", "bold flat color", "fine, patient detail", "loose, energetic strokes"];
+const LIGHT = ["a soft, diffused light", "a dramatic contrast of light and shadow", "a cool, even daylight", "a warm, glowing palette"];
+const MUSIC = ["Quiet solo piano", "Slow, spacious strings", "Gentle impressionist piano", "Brooding romantic piano"];
+
+// FNV-1a: small, stable string hash
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Deterministic sequence of values in [0, 1) for one seed
+const sequence = (seed: string) => {
+  let state = hash(seed) || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const inRange = (key: NumericConfigKey, random: () => number) => {
+  const { min, max, step } = CONFIG_RANGES[key];
+  // Keep to the middle of the range so mock suggestions look reasonable
+  const value = min + (0.2 + random() * 0.5) * (max - min);
+  return Number((Math.round(value / step) * step).toFixed(2));
+};
+
+export const createMockInsightProvider = (): InsightProvider => ({
+  id: "mock",
+  label: "Offline mock",
+  model: "mock-1",
+  isConfigured: () => true,
+
+  generateJson: async ({ painting, image, tracks }, signal) => {
+    await sleep(RESPONSE_DELAY_MS, signal);
+    const random = sequence(`${painting.id}|${painting.title}`);
+    const mood = [pick(MOODS, random), pick(MOODS, random), pick(MOODS, random)];
+
+    return JSON.stringify({
+      analysis: `[Mock] "${painting.title}" by ${painting.artist} is built from ${pick(STYLES, random)} under ` +
+        `${pick(LIGHT, random)}. ${image ? "The attached preview was received." : "No image was attached."} ` +
+        "Switch the insight provider to Gemini or a local model for a real analysis.",
+      mood: mood.join(", "),
+      suggestedConfig: {
+        size: inRange("size", random),
+        depth: inRange("depth", random),
+        density: inRange("density", random),
+        dispersion: inRange("dispersion", random),
+        brightness: inRange("brightness", random),
+        useSemanticDepth: random() > 0.5
+      },
+      suggestedMusic: {
+        mood: pick(MUSIC, random),
+        ...(tracks.length > 0 ? { trackId: pick(tracks, random).id } : {})
+      }
+    });
+  },
+
+  async *streamChat({ painting, turns }, signal) {
+    const question = turns[turns.length - 1]?.text ?? "";
+    const random = sequence(`${painting.id}|${question}`);
+
+    // One region somewhere on the canvas, in Gemini's [ymin, xmin, ymax, xmax] 0-1000 format
+    const x = Math.round(random() * 600);
+    const y = Math.round(random() * 600);
+    const size = 200 + Math.round(random() * 200);
+    const meta = {
+      followUps: [
+        `Why did ${painting.artist} choose this composition?`,
+        "What should I notice in the colors?",
+        "How does this compare to other works of the period?"
+      ],
+      regions: [{ label: "Area of interest", box_2d: [y, x, Math.min(1000, y + size), Math.min(1000, x + size)] }]
+    };
+
+    const answer = `[Mock] You asked: "${question}". Look at the highlighted area of "${painting.title}": ` +
+      `it shows ${pick(STYLES, random)} and ${pick(LIGHT, random)}, which sets a ${pick(MOODS, random).toLowerCase()} tone.`;
+
+    await sleep(RESPONSE_DELAY_MS, signal);
+    for (const word of answer.split(" ")) {
+      yield `${word} `;
+      await sleep(WORD_DELAY_MS, signal);
+    }
+    yield `\n${CHAT_META_MARKER}\n${JSON.stringify(meta)}`;
+  }
+});
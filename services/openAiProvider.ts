@@ -0,0 +1,106 @@
+import { ImagePreview } from "./particleLoader";
+import { INSIGHT_ENV, InsightHttpError, InsightProvider, withBackoff } from "./insightProvider";
+
+// Any OpenAI-compatible /chat/completions endpoint: Ollama, LM Studio, llama.cpp
+// server, vLLM ... (OPENAI_BASE_URL, OPENAI_MODEL, optional OPENAI_API_KEY).
+// Images are sent as data URLs, so the model needs vision support for uploads.
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface ChatCompletionMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ContentPart[];
+}
+
+const withImage = (text: string, image: ImagePreview | null): string | ContentPart[] =>
+  image
+    ? [
+        { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+        { type: "text", text }
+      ]
+    : text;
+
+export const createOpenAiProvider = (
+  baseUrl = INSIGHT_ENV.openAiBaseUrl,
+  model = INSIGHT_ENV.openAiModel,
+  apiKey = INSIGHT_ENV.openAiApiKey
+): InsightProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({ model, ...body }),
+      signal
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new InsightHttpError(response.status, `${endpoint} responded ${response.status} ${detail.slice(0, 200)}`.trim());
+    }
+    return response;
+  };
+
+  return {
+    id: "openai",
+    label: "OpenAI-compatible",
+    model,
+    // Local servers usually need no key
+    isConfigured: () => Boolean(baseUrl),
+
+    generateJson: ({ image, prompt, schema }, signal) =>
+      withBackoff(async () => {
+        const response = await post({
+          messages: [{ role: "user", content: withImage(prompt, image) }],
+          response_format: { type: "json_schema", json_schema: { name: "insight", schema } }
+        }, signal);
+
+        const data = await response.json();
+        const text = data?.choices?.[0]?.message?.content;
+        if (typeof text !== "string" || !text) throw new Error(`No response from ${model}`);
+        return text;
+      }, signal),
+
+    async *streamChat({ image, instruction, turns }, signal) {
+      const messages: ChatCompletionMessage[] = [
+        { role: "system", content: instruction },
+        ...turns.map((message, i): ChatCompletionMessage => ({
+          role: message.role === "model" ? "assistant" : "user",
+          content: i === 0 ? withImage(message.text, image) : message.text
+        }))
+      ];
+
+      const response = await withBackoff(() => post({ messages, stream: true }, signal), signal);
+      if (!response.body) throw new Error(`No response from ${model}`);
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) return;
+          buffer += value;
+
+          const lines = buffer.split("\n");
+          buffer = lines.pop() ?? "";
+          for (const line of lines) {
+            const payload = line.trim().replace(/^data:\s*/, "");
+            if (!line.trim().startsWith("data:") || !payload) continue;
+            if (payload === "[DONE]") return;
+            const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+            if (typeof delta === "string" && delta) yield delta;
+          }
+        }
+      } finally {
+        // Closes the connection if we stop early ([DONE], abort, parse error)
+        reader.cancel().catch(() => undefined);
+      }
+    }
+  };
+};
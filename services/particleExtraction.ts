@@ -0,0 +1,198 @@
+import { GeometryData } from "../types";
+
+// Shared pixel-to-particle sampling used by both the Web Worker and the
+// main-thread fallback in particleLoader.ts.
+
+export interface ExtractionOptions {
+  density: number;
+  semantic: boolean;
+}
+
+export interface ExtractionHooks {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void; // 0.0 - 1.0
+}
+
+export type ParticleBuffers = Pick<GeometryData, 'positions' | 'colors' | 'brightness' | 'randoms'>;
+
+// --- Worker Protocol ---
+
+export type WorkerRequest =
+  | { type: 'extract'; id: number; blob: Blob; options: ExtractionOptions } // Blob fetched by services/imageSources
+  | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'done'; id: number; buffers: ParticleBuffers; hash: string }
+  | { type: 'error'; id: number; message: string };
+
+// --- Content Hashing ---
+
+// FNV-1a fallback for insecure contexts where crypto.subtle is missing
+const fnv1a = (bytes: Uint8Array): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    h ^= bytes[i];
+    h = Math.imul(h, 0x01000193);
+  }
+  return `fnv-${(h >>> 0).toString(16)}-${bytes.length}`;
+};
+
+// Hash the source image bytes so identical images share cache entries
+export const hashBytes = async (bytes: ArrayBuffer | Uint8Array | Uint8ClampedArray): Promise<string> => {
+  const view = bytes instanceof ArrayBuffer
+    ? new Uint8Array(bytes)
+    : new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fnv1a(view);
+
+  const digest = await crypto.subtle.digest('SHA-256', view);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// --- Semantic Depth ---
+
+const luminance = (data: Uint8ClampedArray, i: number) =>
+  (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+
+// Derive a depth value (0..1) from color theory instead of raw brightness:
+// warm hues advance, cool hues recede, saturated colors sit in front of
+// muted ones, and edges get a local-contrast boost so outlines read in relief.
+const semanticDepth = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  step: number
+): number => {
+  const i = (y * width + x) * 4;
+  const r = data[i] / 255;
+  const g = data[i + 1] / 255;
+  const b = data[i + 2] / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const chroma = max - min;
+  const saturation = max === 0 ? 0 : chroma / max;
+
+  // Hue in degrees (0 = red, 120 = green, 240 = blue)
+  let hue = 0;
+  if (chroma > 0) {
+    if (max === r) hue = 60 * (((g - b) / chroma) % 6);
+    else if (max === g) hue = 60 * ((b - r) / chroma + 2);
+    else hue = 60 * ((r - g) / chroma + 4);
+    if (hue < 0) hue += 360;
+  }
+
+  // Warmth peaks at orange (30°) and bottoms out at azure (210°), weighted by saturation
+  const warmth = Math.cos(((hue - 30) * Math.PI) / 180) * saturation;
+
+  // Local contrast against the neighbouring sample points
+  const lum = luminance(data, i);
+  const left = (y * width + Math.max(0, x - step)) * 4;
+  const right = (y * width + Math.min(width - 1, x + step)) * 4;
+  const up = (Math.max(0, y - step) * width + x) * 4;
+  const down = (Math.min(height - 1, y + step) * width + x) * 4;
+  const neighbourLum =
+    (luminance(data, left) + luminance(data, right) + luminance(data, up) + luminance(data, down)) / 4;
+  const contrast = Math.min(1, Math.abs(lum - neighbourLum) * 4);
+
+  const depth =
+    0.35 * lum +
+    0.3 * (warmth * 0.5 + 0.5) +
+    0.15 * saturation +
+    0.2 * contrast;
+
+  return Math.max(0, Math.min(1, depth));
+};
+
+// --- Sampling ---
+
+// Calculate step based on density config
+export const samplingStep = (width: number, height: number, density: number): number => {
+  const safeDensity = Math.max(0.5, Math.min(10, density));
+  let step = Math.max(1, Math.round(6 / safeDensity));
+
+  if (width * height > 2000000 && step < 2) step = 2;
+  return step;
+};
+
+// Skip transparent pixels (alpha < 0.1)
+const isVisible = (data: Uint8ClampedArray, i: number) => data[i + 3] / 255 >= 0.1;
+
+const YIELD_INTERVAL_MS = 16;
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Particle extraction cancelled', 'AbortError');
+};
+
+export const extractParticles = async (
+  image: ImageData,
+  options: ExtractionOptions,
+  hooks: ExtractionHooks = {}
+): Promise<ParticleBuffers> => {
+  const { data, width, height } = image;
+  const { signal, onProgress } = hooks;
+  const step = samplingStep(width, height, options.density);
+
+  // First pass: count visible samples so the typed arrays can be preallocated
+  let count = 0;
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (isVisible(data, (y * width + x) * 4)) count++;
+    }
+  }
+
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const brightness = new Float32Array(count);
+  const randoms = new Float32Array(count);
+
+  // Calculate center offset
+  const cx = width / 2;
+  const cy = height / 2;
+  const scale = 0.1; // Scale down the world unit size
+
+  let n = 0;
+  let lastYield = performance.now();
+
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = (y * width + x) * 4;
+      if (!isVisible(data, i)) continue;
+
+      const r = data[i] / 255;
+      const g = data[i + 1] / 255;
+      const b = data[i + 2] / 255;
+
+      // Static Grid Position
+      positions[n * 3] = (x - cx) * scale;
+      positions[n * 3 + 1] = -(y - cy) * scale;
+      positions[n * 3 + 2] = 0;
+
+      // Attributes
+      colors[n * 3] = r;
+      colors[n * 3 + 1] = g;
+      colors[n * 3 + 2] = b;
+      brightness[n] = options.semantic
+        ? semanticDepth(data, width, height, x, y, step)
+        : (r + g + b) / 3;
+      randoms[n] = Math.random(); // Stable random value for shader noise
+      n++;
+    }
+
+    // Periodically hand control back so cancel messages can be processed
+    if (performance.now() - lastYield > YIELD_INTERVAL_MS) {
+      onProgress?.(y / height);
+      await yieldToEventLoop();
+      throwIfAborted(signal);
+      lastYield = performance.now();
+    }
+  }
+
+  onProgress?.(1);
+  return { positions, colors, brightness, randoms };
+};
@@ -0,0 +1,237 @@
+import { GeometryData } from "../types";
+import {
+  extractParticles,
+  hashBytes,
+  ExtractionHooks,
+  ExtractionOptions,
+  ParticleBuffers,
+  WorkerRequest,
+  WorkerResponse
+} from "./particleExtraction";
+import { fetchImage } from "./imageSources";
+
+const abortError = () => new DOMException('Particle extraction cancelled', 'AbortError');
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+// --- Source Images ---
+
+// Recently fetched paintings, so particle sampling and the AI preview share one download
+const RECENT_IMAGE_LIMIT = 3;
+const recentImages = new Map<string, Promise<Blob>>();
+
+const fetchSourceImage = async (src: string, signal?: AbortSignal): Promise<Blob> => {
+  let pending = recentImages.get(src);
+  if (pending) {
+    recentImages.delete(src); // Re-insert as most recently used
+  } else {
+    pending = fetchImage(src, { signal });
+    const request = pending;
+    request.catch(() => {
+      if (recentImages.get(src) === request) recentImages.delete(src);
+    });
+  }
+  recentImages.set(src, pending);
+  while (recentImages.size > RECENT_IMAGE_LIMIT) recentImages.delete(recentImages.keys().next().value as string);
+
+  try {
+    return await pending;
+  } catch (err) {
+    // Cancelled by the caller that started the download: fetch again for this one
+    if (isAbortError(err) && !signal?.aborted) return fetchSourceImage(src, signal);
+    throw err;
+  }
+};
+
+// Content hash of a source image, as reported with its geometry. Lets the geometry cache
+// find session-scoped sources (blob: and data: URLs) on disk; the download is reused.
+export const hashImageSource = async (src: string, signal?: AbortSignal): Promise<string> =>
+  hashBytes(await (await fetchSourceImage(src, signal)).arrayBuffer());
+
+// --- Worker Pipeline ---
+
+interface ExtractionResult {
+  buffers: ParticleBuffers;
+  hash: string; // Content hash of the source image
+}
+
+export interface LoadedGeometry {
+  geometry: GeometryData;
+  hash: string;
+}
+
+interface PendingJob {
+  resolve: (result: ExtractionResult) => void;
+  reject: (err: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+const supportsWorkerExtraction =
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./particleWorker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const job = pendingJobs.get(message.id);
+    if (!job) return; // Cancelled or already settled
+
+    if (message.type === 'progress') {
+      job.onProgress?.(message.progress);
+    } else if (message.type === 'done') {
+      pendingJobs.delete(message.id);
+      job.resolve({ buffers: message.buffers, hash: message.hash });
+    } else {
+      pendingJobs.delete(message.id);
+      job.reject(new Error(message.message));
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error("Particle worker crashed", event.message);
+    pendingJobs.forEach(job => job.reject(new Error("Particle worker crashed")));
+    pendingJobs.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+};
+
+const extractInWorker = (
+  blob: Blob,
+  options: ExtractionOptions,
+  { signal, onProgress }: ExtractionHooks
+): Promise<ExtractionResult> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const id = nextJobId++;
+    const target = getWorker();
+    pendingJobs.set(id, { resolve, reject, onProgress });
+
+    signal?.addEventListener('abort', () => {
+      if (!pendingJobs.delete(id)) return;
+      target.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+      reject(abortError());
+    }, { once: true });
+
+    target.postMessage({ type: 'extract', id, blob, options } satisfies WorkerRequest);
+  });
+
+// --- Main-Thread Fallback ---
+
+// Draw an image Blob onto a 2D canvas, optionally downscaled so the longest side fits maxDimension
+const drawToCanvas = (blob: Blob, maxDimension = Infinity): Promise<CanvasRenderingContext2D> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.src = url;
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        reject(new Error("Failed to get 2D context"));
+        return;
+      }
+
+      const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(ctx);
+    };
+
+    img.onerror = (e) => {
+      URL.revokeObjectURL(url);
+      console.error("Image decoding error", e);
+      reject(new Error("Failed to decode image (unsupported or corrupt file)"));
+    };
+  });
+
+const decodeOnMainThread = async (blob: Blob): Promise<ImageData> => {
+  const ctx = await drawToCanvas(blob);
+  return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+};
+
+const extractOnMainThread = async (
+  blob: Blob,
+  options: ExtractionOptions,
+  hooks: ExtractionHooks
+): Promise<ExtractionResult> => {
+  const image = await decodeOnMainThread(blob);
+  // Same hash as the worker path: the fetched file bytes
+  const hash = await hashBytes(await blob.arrayBuffer());
+  return { buffers: await extractParticles(image, options, hooks), hash };
+};
+
+// Load an image through the configured image sources and sample it into
+// particle buffers, preferring the worker. Source failures reject with ImageLoadError.
+export const loadImageData = async (
+  src: string,
+  density: number,
+  semantic: boolean,
+  hooks: ExtractionHooks = {}
+): Promise<LoadedGeometry> => {
+  const blob = await fetchSourceImage(src, hooks.signal);
+  const options: ExtractionOptions = { density, semantic };
+
+  const { buffers, hash } = supportsWorkerExtraction
+    ? await extractInWorker(blob, options, hooks)
+    : await extractOnMainThread(blob, options, hooks);
+
+  return { geometry: { ...buffers, density, src, semantic }, hash };
+};
+
+// --- Image Preview ---
+
+export interface ImagePreview {
+  data: string; // Base64, no data: prefix
+  mimeType: string;
+}
+
+const PREVIEW_MAX_DIMENSION = 768;
+const PREVIEW_QUALITY = 0.85;
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read image preview"));
+    reader.readAsDataURL(blob);
+  });
+
+// Downscaled JPEG of a painting for multimodal AI prompts. Reuses the download made
+// for particle sampling and the same canvas drawing.
+export const loadImagePreview = async (
+  src: string,
+  { signal, maxDimension = PREVIEW_MAX_DIMENSION }: { signal?: AbortSignal; maxDimension?: number } = {}
+): Promise<ImagePreview> => {
+  const blob = await fetchSourceImage(src, signal);
+  const ctx = await drawToCanvas(blob, maxDimension);
+  if (signal?.aborted) throw new DOMException('Image preview cancelled', 'AbortError');
+
+  const jpeg = await new Promise<Blob>((resolve, reject) => {
+    ctx.canvas.toBlob(
+      result => (result ? resolve(result) : reject(new Error("Failed to encode image preview"))),
+      'image/jpeg',
+      PREVIEW_QUALITY
+    );
+  });
+  return { data: await blobToBase64(jpeg), mimeType: 'image/jpeg' };
+};
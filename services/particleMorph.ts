@@ -0,0 +1,115 @@
+import { GeometryData, MorphEasing } from "../types";
+
+// Buffers for a cloud that is (or can be) morphing between two paintings.
+// `positions`/`colors`/`brightness` are the incoming (home) state, the `from*`
+// arrays the outgoing one. The vertex shader blends them with `uMorph`.
+export interface MorphBuffers {
+  count: number;
+  positions: Float32Array;
+  colors: Float32Array;
+  brightness: Float32Array;
+  randoms: Float32Array;
+  fromPositions: Float32Array;
+  fromColors: Float32Array;
+  fromBrightness: Float32Array;
+  alphas: Float32Array; // vec2 per particle: (outgoing alpha, incoming alpha)
+}
+
+export const EASINGS: Record<MorphEasing, (t: number) => number> = {
+  linear: (t) => t,
+  easeInOutSine: (t) => -(Math.cos(Math.PI * t) - 1) / 2,
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutExpo: (t) => (t >= 1 ? 1 : 1 - Math.pow(2, -10 * t))
+};
+
+// A resting cloud: outgoing state shares the incoming arrays, so nothing moves
+export const staticMorph = (geometry: GeometryData): MorphBuffers => {
+  const count = geometry.brightness.length;
+  return {
+    count,
+    positions: geometry.positions,
+    colors: geometry.colors,
+    brightness: geometry.brightness,
+    randoms: geometry.randoms,
+    fromPositions: geometry.positions,
+    fromColors: geometry.colors,
+    fromBrightness: geometry.brightness,
+    alphas: new Float32Array(count * 2).fill(1)
+  };
+};
+
+// Freeze a (possibly mid-flight) morph at progress `t`, dropping invisible particles
+const snapshot = (morph: MorphBuffers, t: number) => {
+  const visible: number[] = [];
+  for (let i = 0; i < morph.count; i++) {
+    const alpha = morph.alphas[i * 2] + (morph.alphas[i * 2 + 1] - morph.alphas[i * 2]) * t;
+    if (alpha > 0.01) visible.push(i);
+  }
+
+  const count = visible.length;
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const brightness = new Float32Array(count);
+  const alphas = new Float32Array(count);
+
+  visible.forEach((src, n) => {
+    for (let k = 0; k < 3; k++) {
+      const from = morph.fromPositions[src * 3 + k];
+      positions[n * 3 + k] = from + (morph.positions[src * 3 + k] - from) * t;
+      const fromColor = morph.fromColors[src * 3 + k];
+      colors[n * 3 + k] = fromColor + (morph.colors[src * 3 + k] - fromColor) * t;
+    }
+    brightness[n] = morph.fromBrightness[src] + (morph.brightness[src] - morph.fromBrightness[src]) * t;
+    alphas[n] = morph.alphas[src * 2] + (morph.alphas[src * 2 + 1] - morph.alphas[src * 2]) * t;
+  });
+
+  return { count, positions, colors, brightness, alphas };
+};
+
+// Build a morph from the currently displayed cloud (frozen at eased progress `t`)
+// to `target`. Both clouds are row-major scans, so mapping them by relative index
+// keeps particles roughly in place spatially. When counts differ, the smaller cloud
+// is resampled: duplicated outgoing particles fade in (spawn) and duplicated
+// incoming particles fade out, so the finished morph matches `target` exactly.
+export const createMorph = (current: MorphBuffers, t: number, target: GeometryData): MorphBuffers => {
+  const from = snapshot(current, t);
+  const a = from.count;
+  const b = target.brightness.length;
+  if (a === 0 || b === 0) return staticMorph(target);
+
+  const count = Math.max(a, b);
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const brightness = new Float32Array(count);
+  const randoms = new Float32Array(count);
+  const fromPositions = new Float32Array(count * 3);
+  const fromColors = new Float32Array(count * 3);
+  const fromBrightness = new Float32Array(count);
+  const alphas = new Float32Array(count * 2);
+
+  let prevFrom = -1;
+  let prevTo = -1;
+
+  for (let i = 0; i < count; i++) {
+    const fi = Math.floor((i * a) / count);
+    const ti = Math.floor((i * b) / count);
+
+    for (let k = 0; k < 3; k++) {
+      positions[i * 3 + k] = target.positions[ti * 3 + k];
+      colors[i * 3 + k] = target.colors[ti * 3 + k];
+      fromPositions[i * 3 + k] = from.positions[fi * 3 + k];
+      fromColors[i * 3 + k] = from.colors[fi * 3 + k];
+    }
+    brightness[i] = target.brightness[ti];
+    randoms[i] = target.randoms[ti];
+    fromBrightness[i] = from.brightness[fi];
+
+    alphas[i * 2] = fi === prevFrom ? 0 : from.alphas[fi];
+    alphas[i * 2 + 1] = ti === prevTo ? 0 : 1;
+
+    prevFrom = fi;
+    prevTo = ti;
+  }
+
+  return { count, positions, colors, brightness, randoms, fromPositions, fromColors, fromBrightness, alphas };
+};
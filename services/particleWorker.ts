@@ -0,0 +1,64 @@
+import { extractParticles, hashBytes, WorkerRequest, WorkerResponse } from "./particleExtraction";
+
+// Runs image decoding and particle sampling off the main thread.
+// Loaded via `new Worker(new URL('./particleWorker.ts', import.meta.url))`.
+
+const jobs = new Map<number, AbortController>();
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const decodeImage = async (blob: Blob): Promise<{ image: ImageData; hash: string }> => {
+  const hash = await hashBytes(await blob.arrayBuffer());
+  const bitmap = await createImageBitmap(blob).catch(() => {
+    throw new Error("Failed to decode image (unsupported or corrupt file)");
+  });
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Failed to get 2D context");
+
+    ctx.drawImage(bitmap, 0, 0);
+    return { image: ctx.getImageData(0, 0, bitmap.width, bitmap.height), hash };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const runJob = async ({ id, blob, options }: Extract<WorkerRequest, { type: 'extract' }>) => {
+  const controller = new AbortController();
+  jobs.set(id, controller);
+
+  try {
+    const { image, hash } = await decodeImage(blob);
+    const buffers = await extractParticles(image, options, {
+      signal: controller.signal,
+      onProgress: (progress) => post({ type: 'progress', id, progress })
+    });
+
+    post({ type: 'done', id, buffers, hash }, [
+      buffers.positions.buffer,
+      buffers.colors.buffer,
+      buffers.brightness.buffer,
+      buffers.randoms.buffer
+    ]);
+  } catch (err) {
+    // Cancelled jobs were already settled on the main thread
+    if (!controller.signal.aborted) {
+      post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+    }
+  } finally {
+    jobs.delete(id);
+  }
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'extract') {
+    runJob(request);
+  } else if (request.type === 'cancel') {
+    jobs.get(request.id)?.abort();
+  }
+};
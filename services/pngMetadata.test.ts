@@ -0,0 +1,75 @@
+import { crc32 } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { embedPngText } from "./pngMetadata";
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const chunk = (type: string, data: Uint8Array) => {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  bytes.set(new TextEncoder().encode(type), 4);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+};
+
+// Signature, a 1x1 IHDR and IEND: enough structure for the chunk walk
+const minimalPng = () => new Blob([new Uint8Array(SIGNATURE), chunk('IHDR', new Uint8Array(13)), chunk('IEND', new Uint8Array())]);
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+  crcValid: boolean;
+}
+
+const readChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: Chunk[] = [];
+  for (let offset = 8; offset < bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = new TextDecoder().decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    const crcValid = view.getUint32(offset + 8 + length) === crc32(bytes.subarray(offset + 4, offset + 8 + length));
+    chunks.push({ type, data, crcValid });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+// iTXt: keyword \0 flag method language \0 translated \0 text
+const parseITxt = (data: Uint8Array) => {
+  const end = data.indexOf(0);
+  return {
+    keyword: new TextDecoder().decode(data.subarray(0, end)),
+    text: new TextDecoder().decode(data.subarray(end + 5))
+  };
+};
+
+describe("embedPngText", () => {
+  it("inserts one iTXt chunk per entry right after IHDR", async () => {
+    const png = await embedPngText(minimalPng(), { Title: '神奈川沖浪裏', Software: 'ArtParticle 3D' });
+    const bytes = new Uint8Array(await png.arrayBuffer());
+
+    expect(png.type).toBe('image/png');
+    expect(Array.from(bytes.subarray(0, 8))).toEqual(SIGNATURE);
+
+    const chunks = readChunks(bytes);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'iTXt', 'iTXt', 'IEND']);
+    expect(chunks.every(c => c.crcValid)).toBe(true);
+    expect(chunks.slice(1, 3).map(c => parseITxt(c.data))).toEqual([
+      { keyword: 'Title', text: '神奈川沖浪裏' },
+      { keyword: 'Software', text: 'ArtParticle 3D' }
+    ]);
+  });
+
+  it("truncates keywords to the 79 bytes PNG allows", async () => {
+    const png = await embedPngText(minimalPng(), { ['k'.repeat(100)]: 'value' });
+    const [, text] = readChunks(new Uint8Array(await png.arrayBuffer()));
+    expect(parseITxt(text.data).keyword).toHaveLength(79);
+  });
+
+  it("rejects files that are not PNGs", async () => {
+    await expect(embedPngText(new Blob(['GIF89a']), { Title: 'x' })).rejects.toThrow("Not a PNG file");
+  });
+});
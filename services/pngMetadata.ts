@@ -0,0 +1,54 @@
+// Embed text metadata into a PNG as iTXt chunks (UTF-8, so non-Latin titles survive).
+// Chunks are inserted right after IHDR, which every PNG reader accepts.
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const encodeChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// iTXt layout: keyword \0 compressionFlag compressionMethod languageTag \0 translatedKeyword \0 text
+const encodeITxt = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const key = encoder.encode(keyword.slice(0, 79));
+  const value = encoder.encode(text);
+  const data = new Uint8Array(key.length + 5 + value.length);
+  data.set(key, 0);
+  // Bytes after the keyword stay zero: separator, no compression, empty language tag and translation
+  data.set(value, key.length + 5);
+  return encodeChunk('iTXt', data);
+};
+
+export const embedPngText = async (png: Blob, entries: Record<string, string>): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) throw new Error("Not a PNG file");
+
+  // IHDR is always the first chunk: 8 (signature) + 4 (length) + 4 (type) + 13 (data) + 4 (crc)
+  const ihdrEnd = 8 + 12 + new DataView(bytes.buffer).getUint32(8);
+  const chunks = Object.entries(entries).map(([key, value]) => encodeITxt(key, value));
+
+  return new Blob([bytes.subarray(0, ihdrEnd), ...chunks, bytes.subarray(ihdrEnd)], { type: 'image/png' });
+};
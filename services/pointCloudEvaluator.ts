@@ -0,0 +1,69 @@
+import { AudioData, GeometryData, ParticleConfig } from "../types";
+import { SILENT_AUDIO } from "./audioAnalysis";
+import { DEFAULT_AUDIO_ROUTES, evaluateAudioRoutes } from "./audioRouting";
+
+// CPU mirror of the particle vertex/fragment shaders in components/ParticleSystem.tsx.
+// The final Z (depth, dispersion, wave) only exists on the GPU, so exporters run the
+// same math here. Keep both in sync when changing the shader.
+
+export interface EvaluatedPointCloud {
+  count: number;
+  positions: Float32Array; // xyz, world units
+  colors: Float32Array;    // rgb 0..1 (sRGB), brightness and audio pulse applied, clamped
+}
+
+export interface EvaluationInput {
+  time: number;      // uTime in seconds
+  audio: AudioData;  // uAudio* uniforms, fed through the config's audio routes
+}
+
+export const REST_POSE: EvaluationInput = { time: 0, audio: SILENT_AUDIO };
+
+export const evaluatePointCloud = (
+  geometry: GeometryData,
+  config: ParticleConfig,
+  { time, audio }: EvaluationInput = REST_POSE
+): EvaluatedPointCloud => {
+  const count = geometry.brightness.length;
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+
+  const mods = evaluateAudioRoutes(config.audioRoutes ?? DEFAULT_AUDIO_ROUTES, audio);
+  const effectiveDispersion = Math.max(0, config.dispersion + mods.dispersion);
+  const spread = effectiveDispersion * 2.0;
+  const waveAmp = 1.5 + mods.wave;
+  const waveFreq = 0.05;
+  const pulse = Math.max(0, 1.0 + mods.brightness);
+  const colorScale = config.brightness * pulse;
+
+  for (let i = 0; i < count; i++) {
+    let x = geometry.positions[i * 3];
+    let y = geometry.positions[i * 3 + 1];
+    const random = geometry.randoms[i];
+
+    // 1. Z-depth from brightness, scaled by depth modulation
+    let z = geometry.brightness[i] * config.depth * (1.0 + mods.depth);
+
+    // 2. Dispersion
+    if (effectiveDispersion > 0) {
+      const noiseX = Math.sin(random * 100.0 + time * 2.0) * Math.cos(random * 200.0);
+      const noiseY = Math.cos(random * 100.0 + time * 2.0) * Math.sin(random * 200.0);
+      x += noiseX * spread * random;
+      y += noiseY * spread * random;
+      z += (random - 0.5) * spread * 5.0;
+    }
+
+    // 3. Wave across X
+    z += Math.sin(x * waveFreq + time) * waveAmp;
+
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = y;
+    positions[i * 3 + 2] = z;
+
+    for (let k = 0; k < 3; k++) {
+      colors[i * 3 + k] = Math.min(1, geometry.colors[i * 3 + k] * colorScale);
+    }
+  }
+
+  return { count, positions, colors };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { EvaluatedPointCloud } from "./pointCloudEvaluator";
+import { POINT_CLOUD_FORMATS, serializePointCloud } from "./pointCloudExport";
+
+const cloud: EvaluatedPointCloud = {
+  count: 2,
+  positions: new Float32Array([1, 2, 3, -4.5, 0.25, 10]),
+  colors: new Float32Array([1, 0, 0.5, 0, 1, 2]) // Out-of-range values clamp
+};
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// Split a PLY file into its header lines and the body bytes after end_header
+const splitPly = (bytes: Uint8Array) => {
+  const marker = new TextEncoder().encode('end_header\n');
+  let end = 0;
+  while (!marker.every((b, i) => bytes[end + i] === b)) end++;
+  return {
+    header: new TextDecoder().decode(bytes.subarray(0, end)).trim().split('\n'),
+    body: bytes.subarray(end + marker.length)
+  };
+};
+
+describe("serializePointCloud", () => {
+  it("labels each format with its MIME type", () => {
+    POINT_CLOUD_FORMATS.forEach(({ id, mimeType }) => {
+      expect(serializePointCloud(cloud, id).type).toBe(mimeType);
+    });
+  });
+
+  it("writes little-endian binary PLY", async () => {
+    const { header, body } = splitPly(await bytesOf(serializePointCloud(cloud, 'ply-binary')));
+    expect(header).toContain('format binary_little_endian 1.0');
+    expect(header).toContain('element vertex 2');
+    expect(body.length).toBe(2 * 15);
+
+    const view = new DataView(body.buffer, body.byteOffset);
+    expect([view.getFloat32(15, true), view.getFloat32(19, true), view.getFloat32(23, true)]).toEqual([-4.5, 0.25, 10]);
+    expect(Array.from(body.subarray(12, 15))).toEqual([255, 0, 128]);
+    expect(Array.from(body.subarray(27, 30))).toEqual([0, 255, 255]);
+  });
+
+  it("writes ASCII PLY and XYZRGB with the same vertex lines", async () => {
+    const ply = await serializePointCloud(cloud, 'ply-ascii').text();
+    const xyz = await serializePointCloud(cloud, 'xyz').text();
+    const lines = ['1.0000 2.0000 3.0000 255 0 128', '-4.5000 0.2500 10.0000 0 255 255'];
+
+    expect(ply.startsWith('ply\nformat ascii 1.0\n')).toBe(true);
+    expect(ply.endsWith(`end_header\n${lines.join('\n')}\n`)).toBe(true);
+    expect(xyz).toBe(`${lines.join('\n')}\n`);
+  });
+
+  it("writes a GLB with a POINTS mesh and linear vertex colours", async () => {
+    const bytes = await bytesOf(serializePointCloud(cloud, 'glb'));
+    const view = new DataView(bytes.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x46546c67); // 'glTF'
+    expect(view.getUint32(4, true)).toBe(2);
+    expect(view.getUint32(8, true)).toBe(bytes.length);
+
+    const jsonLength = view.getUint32(12, true);
+    expect(jsonLength % 4).toBe(0);
+    const gltf = JSON.parse(new TextDecoder().decode(bytes.subarray(20, 20 + jsonLength)));
+    expect(gltf.meshes[0].primitives[0].mode).toBe(0);
+    expect(gltf.accessors[0]).toMatchObject({ count: 2, type: 'VEC3', min: [-4.5, 0.25, 3], max: [1, 2, 10] });
+
+    const binStart = 20 + jsonLength + 8;
+    expect(view.getUint32(20 + jsonLength, true)).toBe(bytes.length - binStart);
+    const positions = new Float32Array(bytes.slice(binStart, binStart + 24).buffer);
+    const colors = new Float32Array(bytes.slice(binStart + 24, binStart + 48).buffer);
+    expect(Array.from(positions)).toEqual(Array.from(cloud.positions));
+    expect(colors[0]).toBe(1);
+    expect(colors[2]).toBeCloseTo(0.214, 3); // sRGB 0.5
+  });
+
+  it("handles an empty cloud", async () => {
+    const empty: EvaluatedPointCloud = { count: 0, positions: new Float32Array(), colors: new Float32Array() };
+    const bytes = await bytesOf(serializePointCloud(empty, 'glb'));
+    const jsonLength = new DataView(bytes.buffer).getUint32(12, true);
+    const gltf = JSON.parse(new TextDecoder().decode(bytes.subarray(20, 20 + jsonLength)));
+
+    expect(gltf.accessors[0]).toMatchObject({ count: 0, min: [0, 0, 0], max: [0, 0, 0] });
+    expect(await serializePointCloud(empty, 'xyz').text()).toBe('\n');
+  });
+});
@@ -0,0 +1,158 @@
+import { EvaluatedPointCloud } from "./pointCloudEvaluator";
+import { MessageKey } from "./i18n";
+
+// Serializers for evaluated point clouds: PLY (binary / ASCII), glTF binary (POINTS) and XYZRGB text.
+
+export type PointCloudFormat = 'ply-binary' | 'ply-ascii' | 'glb' | 'xyz';
+
+export const POINT_CLOUD_FORMATS: { id: PointCloudFormat; label: MessageKey; extension: string; mimeType: string }[] = [
+  { id: 'ply-binary', label: 'export.plyBinary', extension: 'ply', mimeType: 'application/octet-stream' },
+  { id: 'ply-ascii', label: 'export.plyAscii', extension: 'ply', mimeType: 'text/plain' },
+  { id: 'glb', label: 'export.glb', extension: 'glb', mimeType: 'model/gltf-binary' },
+  { id: 'xyz', label: 'export.xyz', extension: 'xyz', mimeType: 'text/plain' }
+];
+
+const toByte = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+
+// --- PLY ---
+
+const plyHeader = (format: 'binary_little_endian' | 'ascii', count: number) => [
+  'ply',
+  `format ${format} 1.0`,
+  'comment Exported from ArtParticle 3D',
+  `element vertex ${count}`,
+  'property float x',
+  'property float y',
+  'property float z',
+  'property uchar red',
+  'property uchar green',
+  'property uchar blue',
+  'end_header',
+  ''
+].join('\n');
+
+const toPlyBinary = ({ count, positions, colors }: EvaluatedPointCloud): Blob => {
+  const stride = 15; // 3 × float32 + 3 × uint8
+  const body = new ArrayBuffer(count * stride);
+  const view = new DataView(body);
+
+  for (let i = 0; i < count; i++) {
+    const offset = i * stride;
+    view.setFloat32(offset, positions[i * 3], true);
+    view.setFloat32(offset + 4, positions[i * 3 + 1], true);
+    view.setFloat32(offset + 8, positions[i * 3 + 2], true);
+    view.setUint8(offset + 12, toByte(colors[i * 3]));
+    view.setUint8(offset + 13, toByte(colors[i * 3 + 1]));
+    view.setUint8(offset + 14, toByte(colors[i * 3 + 2]));
+  }
+
+  return new Blob([plyHeader('binary_little_endian', count), body]);
+};
+
+const toTextLines = ({ count, positions, colors }: EvaluatedPointCloud): string[] => {
+  const lines: string[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    lines[i] = [
+      positions[i * 3].toFixed(4),
+      positions[i * 3 + 1].toFixed(4),
+      positions[i * 3 + 2].toFixed(4),
+      toByte(colors[i * 3]),
+      toByte(colors[i * 3 + 1]),
+      toByte(colors[i * 3 + 2])
+    ].join(' ');
+  }
+  return lines;
+};
+
+const toPlyAscii = (cloud: EvaluatedPointCloud): Blob =>
+  new Blob([plyHeader('ascii', cloud.count), toTextLines(cloud).join('\n'), '\n']);
+
+const toXyz = (cloud: EvaluatedPointCloud): Blob => new Blob([toTextLines(cloud).join('\n'), '\n']);
+
+// --- glTF ---
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+// glTF vertex colors are linear; our colors are sRGB
+const srgbToLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+
+const padTo4 = (length: number) => (4 - (length % 4)) % 4;
+
+const toGlb = ({ count, positions, colors }: EvaluatedPointCloud): Blob => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < count; i++) {
+    for (let k = 0; k < 3; k++) {
+      const v = positions[i * 3 + k];
+      if (v < min[k]) min[k] = v;
+      if (v > max[k]) max[k] = v;
+    }
+  }
+  if (count === 0) {
+    min.fill(0);
+    max.fill(0);
+  }
+
+  const linearColors = colors.map(srgbToLinear);
+  const byteLength = positions.byteLength + linearColors.byteLength;
+
+  const gltf = {
+    asset: { version: '2.0', generator: 'ArtParticle 3D' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0, name: 'ArtParticle Point Cloud' }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0, COLOR_0: 1 }, mode: 0 }] }], // mode 0 = POINTS
+    buffers: [{ byteLength }],
+    bufferViews: [
+      { buffer: 0, byteOffset: 0, byteLength: positions.byteLength, target: 34962 },
+      { buffer: 0, byteOffset: positions.byteLength, byteLength: linearColors.byteLength, target: 34962 }
+    ],
+    accessors: [
+      { bufferView: 0, componentType: 5126, count, type: 'VEC3', min, max },
+      { bufferView: 1, componentType: 5126, count, type: 'VEC3' }
+    ]
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(gltf));
+  const jsonPadding = padTo4(json.length);
+  const binPadding = padTo4(byteLength);
+  const jsonChunkLength = json.length + jsonPadding;
+  const binChunkLength = byteLength + binPadding;
+
+  const header = new DataView(new ArrayBuffer(12));
+  header.setUint32(0, GLB_MAGIC, true);
+  header.setUint32(4, 2, true);
+  header.setUint32(8, 12 + 8 + jsonChunkLength + 8 + binChunkLength, true);
+
+  const chunkHeader = (length: number, type: number) => {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setUint32(0, length, true);
+    view.setUint32(4, type, true);
+    return view;
+  };
+
+  return new Blob([
+    header,
+    chunkHeader(jsonChunkLength, CHUNK_JSON),
+    json,
+    new TextEncoder().encode(' '.repeat(jsonPadding)),
+    chunkHeader(binChunkLength, CHUNK_BIN),
+    positions,
+    linearColors,
+    new Uint8Array(binPadding)
+  ]);
+};
+
+const SERIALIZERS: Record<PointCloudFormat, (cloud: EvaluatedPointCloud) => Blob> = {
+  'ply-binary': toPlyBinary,
+  'ply-ascii': toPlyAscii,
+  glb: toGlb,
+  xyz: toXyz
+};
+
+export const serializePointCloud = (cloud: EvaluatedPointCloud, format: PointCloudFormat): Blob => {
+  const { mimeType } = POINT_CLOUD_FORMATS.find(f => f.id === format)!;
+  return new Blob([SERIALIZERS[format](cloud)], { type: mimeType });
+};
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CONFIG } from "./configSchema";
+import {
+  exportPresets,
+  importPresets,
+  loadUserPresets,
+  PRESET_FILE_FORMAT,
+  PRESET_FILE_VERSION,
+  saveUserPreset
+} from "./presets";
+
+// In-memory stand-in for the browser's localStorage
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    clear: () => items.clear()
+  };
+};
+
+const presetFile = (presets: unknown, overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets, ...overrides });
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+describe("importPresets", () => {
+  it("stores imported presets as user presets", () => {
+    const imported = importPresets(presetFile([{ name: ' Deep Relief ', config: { ...DEFAULT_CONFIG, depth: 40 } }]));
+
+    expect(imported).toEqual([{ id: 'user-deep-relief', name: 'Deep Relief', config: { ...DEFAULT_CONFIG, depth: 40 } }]);
+    expect(loadUserPresets()).toEqual(imported);
+  });
+
+  it("replaces presets with the same name", () => {
+    saveUserPreset('Soft', DEFAULT_CONFIG);
+    saveUserPreset('Keep', DEFAULT_CONFIG);
+    importPresets(presetFile([{ name: 'Soft', config: { ...DEFAULT_CONFIG, brightness: 0.5 } }]));
+
+    const stored = loadUserPresets();
+    expect(stored.map(p => p.name)).toEqual(['Keep', 'Soft']);
+    expect(stored[1].config.brightness).toBe(0.5);
+  });
+
+  it("round-trips exported presets", () => {
+    const saved = saveUserPreset('Round trip', { ...DEFAULT_CONFIG, size: 1.5 });
+    expect(importPresets(exportPresets([saved]))).toEqual([saved]);
+  });
+
+  it("rejects files that are not preset files", () => {
+    expect(() => importPresets('{')).toThrow("Preset file is not valid JSON");
+    expect(() => importPresets('[]')).toThrow('Not an ArtParticle preset file');
+    expect(() => importPresets(presetFile([], { format: 'something-else' }))).toThrow('Not an ArtParticle preset file');
+    expect(() => importPresets(presetFile([], { version: 99 }))).toThrow("Unsupported preset file version 99");
+    expect(() => importPresets(presetFile({}))).toThrow("presets must be an array");
+  });
+
+  it("names the invalid entry and leaves storage untouched", () => {
+    saveUserPreset('Existing', DEFAULT_CONFIG);
+
+    expect(() => importPresets(presetFile([{ name: 'Ok', config: DEFAULT_CONFIG }, { name: '', config: DEFAULT_CONFIG }])))
+      .toThrow("presets[1].name must be a non-empty string");
+    expect(() => importPresets(presetFile([{ name: 'Too deep', config: { ...DEFAULT_CONFIG, depth: 500 } }])))
+      .toThrow("presets[0].config.depth must be between");
+    expect(loadUserPresets().map(p => p.name)).toEqual(['Existing']);
+  });
+});
@@ -0,0 +1,179 @@
+import { ConfigPreset, ParticleConfig } from "../types";
+import { DEFAULT_CONFIG, parseParticleConfig } from "./configSchema";
+
+// Named ParticleConfig presets: built-ins plus user presets persisted to localStorage.
+// Presets travel as versioned JSON files (see exportPresets / importPresets).
+
+export const PRESET_FILE_FORMAT = 'artparticle3d-presets';
+export const PRESET_FILE_VERSION = 1;
+
+const STORAGE_KEYS = {
+  presets: 'artparticle3d:presets',
+  active: 'artparticle3d:activePreset',
+  paintings: 'artparticle3d:paintingPresets'
+};
+
+export const BUILT_IN_PRESETS: ConfigPreset[] = [
+  {
+    id: 'builtin-default',
+    name: 'Default',
+    builtIn: true,
+    config: DEFAULT_CONFIG
+  },
+  {
+    id: 'builtin-relief',
+    name: 'Relief',
+    builtIn: true,
+    config: { ...DEFAULT_CONFIG, size: 0.6, depth: 30, density: 3, dispersion: 0, brightness: 1.1, useSemanticDepth: true }
+  },
+  {
+    id: 'builtin-nebula',
+    name: 'Nebula',
+    builtIn: true,
+    config: { ...DEFAULT_CONFIG, size: 1.2, depth: 20, density: 1.5, dispersion: 6, brightness: 1.6 }
+  },
+  {
+    id: 'builtin-flat-print',
+    name: 'Flat print',
+    builtIn: true,
+    config: { ...DEFAULT_CONFIG, size: 0.8, depth: 2, density: 2.5, dispersion: 0, brightness: 1.0, useSemanticDepth: false }
+  }
+];
+
+// --- Storage Helpers ---
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (err) {
+    console.warn(`Ignoring unreadable localStorage entry "${key}"`, err);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Failed to persist "${key}"`, err);
+  }
+};
+
+// --- Validation ---
+
+// Validate a versioned preset file and return its presets (as user presets)
+const parsePresetFile = (value: unknown): ConfigPreset[] => {
+  if (typeof value !== 'object' || value === null) throw new Error("Preset file must be a JSON object");
+  const file = value as Record<string, unknown>;
+
+  if (file.format !== PRESET_FILE_FORMAT) throw new Error(`Not an ArtParticle preset file (format "${String(file.format)}")`);
+  if (file.version !== PRESET_FILE_VERSION) throw new Error(`Unsupported preset file version ${String(file.version)}`);
+  if (!Array.isArray(file.presets)) throw new Error("presets must be an array");
+
+  return file.presets.map((entry, i) => {
+    const path = `presets[${i}]`;
+    if (typeof entry !== 'object' || entry === null) throw new Error(`${path} must be an object`);
+    const { name, config } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) throw new Error(`${path}.name must be a non-empty string`);
+
+    return {
+      id: `user-${name.trim().toLowerCase().replace(/\s+/g, '-')}`,
+      name: name.trim(),
+      config: parseParticleConfig(config, `${path}.config`)
+    };
+  });
+};
+
+// --- User Presets ---
+
+export const loadUserPresets = (): ConfigPreset[] => {
+  const stored = readJson<unknown>(STORAGE_KEYS.presets, null);
+  if (!stored) return [];
+
+  try {
+    return parsePresetFile(stored);
+  } catch (err) {
+    console.warn("Discarding invalid stored presets", err);
+    return [];
+  }
+};
+
+const toPresetFile = (presets: ConfigPreset[]) => ({
+  format: PRESET_FILE_FORMAT,
+  version: PRESET_FILE_VERSION,
+  presets: presets.map(({ name, config }) => ({ name, config }))
+});
+
+const storeUserPresets = (presets: ConfigPreset[]) => {
+  writeJson(STORAGE_KEYS.presets, toPresetFile(presets));
+};
+
+export const getAllPresets = (): ConfigPreset[] => [...BUILT_IN_PRESETS, ...loadUserPresets()];
+
+export const findPreset = (id: string | null): ConfigPreset | undefined =>
+  id ? getAllPresets().find(p => p.id === id) : undefined;
+
+// Save (or overwrite by name) a user preset
+export const saveUserPreset = (name: string, config: ParticleConfig): ConfigPreset => {
+  const [preset] = parsePresetFile(toPresetFile([{ id: '', name, config }]));
+  const others = loadUserPresets().filter(p => p.id !== preset.id);
+  storeUserPresets([...others, preset]);
+  return preset;
+};
+
+export const deleteUserPreset = (id: string) => {
+  storeUserPresets(loadUserPresets().filter(p => p.id !== id));
+
+  if (getActivePresetId() === id) setActivePresetId(null);
+  const assignments = getPaintingPresets();
+  Object.keys(assignments).forEach(paintingId => {
+    if (assignments[paintingId] === id) delete assignments[paintingId];
+  });
+  writeJson(STORAGE_KEYS.paintings, assignments);
+};
+
+// --- Import / Export ---
+
+export const exportPresets = (presets: ConfigPreset[]): string =>
+  JSON.stringify(toPresetFile(presets), null, 2);
+
+// Validate and merge presets from a JSON file; same-named presets are replaced
+export const importPresets = (json: string): ConfigPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Preset file is not valid JSON");
+  }
+
+  const imported = parsePresetFile(parsed);
+  const importedIds = new Set(imported.map(p => p.id));
+  storeUserPresets([...loadUserPresets().filter(p => !importedIds.has(p.id)), ...imported]);
+  return imported;
+};
+
+// --- Active Preset & Per-Painting Assignment ---
+
+export const getActivePresetId = (): string | null => readJson<string | null>(STORAGE_KEYS.active, null);
+
+export const setActivePresetId = (id: string | null) => writeJson(STORAGE_KEYS.active, id);
+
+export const getPaintingPresets = (): Record<string, string> =>
+  readJson<Record<string, string>>(STORAGE_KEYS.paintings, {});
+
+export const setPaintingPreset = (paintingId: string, presetId: string | null) => {
+  const assignments = getPaintingPresets();
+  if (presetId) assignments[paintingId] = presetId;
+  else delete assignments[paintingId];
+  writeJson(STORAGE_KEYS.paintings, assignments);
+};
+
+export const getPaintingPreset = (paintingId: string): ConfigPreset | undefined =>
+  findPreset(getPaintingPresets()[paintingId] ?? null);
+
+// Config to start the app with: the painting's assigned preset, the active preset, or the defaults
+export const getInitialConfig = (paintingId?: string): ParticleConfig =>
+  (paintingId ? getPaintingPreset(paintingId) : undefined)?.config ??
+  findPreset(getActivePresetId())?.config ??
+  DEFAULT_CONFIG;
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { Tour, TourKeyframe } from "../types";
+import { DEFAULT_CONFIG } from "./configSchema";
+import {
+  addKeyframe,
+  DEFAULT_KEYFRAME_GAP,
+  EMPTY_TOUR,
+  exportTour,
+  importTour,
+  sampleTour,
+  TOUR_FILE_FORMAT,
+  TOUR_FILE_VERSION,
+  tourDuration,
+  updateKeyframe
+} from "./tour";
+
+const keyframe = (time: number, overrides: Partial<TourKeyframe> = {}): TourKeyframe => ({
+  time,
+  camera: { position: [0, 0, 100], target: [0, 0, 0] },
+  config: DEFAULT_CONFIG,
+  paintingId: 'mona-lisa',
+  easing: 'linear',
+  ...overrides
+});
+
+const tour: Tour = {
+  ...EMPTY_TOUR,
+  keyframes: [
+    keyframe(0, { config: { ...DEFAULT_CONFIG, depth: 10, density: 1.5 } }),
+    keyframe(4, {
+      camera: { position: [40, 0, 60], target: [0, 20, 0] },
+      config: { ...DEFAULT_CONFIG, depth: 30, density: 3 },
+      paintingId: 'starry-night'
+    })
+  ]
+};
+
+describe("sampleTour", () => {
+  it("returns null for a tour without keyframes", () => {
+    expect(sampleTour(EMPTY_TOUR, 1)).toBeNull();
+  });
+
+  it("rests on the first and last keyframes outside the tour", () => {
+    expect(sampleTour(tour, -1)).toMatchObject({ index: 0, camera: tour.keyframes[0].camera });
+    expect(sampleTour(tour, 10)).toMatchObject({ index: 1, camera: tour.keyframes[1].camera, paintingId: 'starry-night' });
+  });
+
+  it("interpolates the camera and blended settings", () => {
+    const sample = sampleTour(tour, 1)!;
+    expect(sample.index).toBe(1);
+    expect(sample.camera).toEqual({ position: [10, 0, 90], target: [0, 5, 0] });
+    expect(sample.config.depth).toBe(15);
+  });
+
+  it("switches discrete settings and the painting when the move starts", () => {
+    const sample = sampleTour(tour, 0.1)!;
+    expect(sample.config.density).toBe(3);
+    expect(sample.paintingId).toBe('starry-night');
+  });
+
+  it("eases the move with the easing of the keyframe it leads to", () => {
+    const eased = updateKeyframe(tour, 1, { easing: 'easeInOutCubic' });
+    expect(sampleTour(eased, 1)!.config.depth).toBeCloseTo(10 + 20 * 0.0625);
+    expect(sampleTour(eased, 2)!.config.depth).toBeCloseTo(20);
+  });
+});
+
+describe("editing", () => {
+  it("appends keyframes after the last one", () => {
+    const { time: _time, ...next } = keyframe(0);
+    const added = addKeyframe(tour, next);
+    expect(tourDuration(added)).toBe(4 + DEFAULT_KEYFRAME_GAP);
+    expect(addKeyframe(EMPTY_TOUR, next).keyframes[0].time).toBe(0);
+  });
+
+  it("keeps keyframes sorted by time", () => {
+    const moved = updateKeyframe(tour, 0, { time: 6 });
+    expect(moved.keyframes.map(k => k.time)).toEqual([4, 6]);
+  });
+});
+
+describe("tour files", () => {
+  it("round-trips a tour", () => {
+    expect(importTour(exportTour({ ...tour, autoplay: true }))).toEqual({ ...tour, autoplay: true });
+  });
+
+  it("rejects files that are not tour files", () => {
+    expect(() => importTour('nope')).toThrow("Tour file is not valid JSON");
+    expect(() => importTour(JSON.stringify({ format: 'other' }))).toThrow('Not an ArtParticle tour file');
+    expect(() => importTour(JSON.stringify({ format: TOUR_FILE_FORMAT, version: 2 }))).toThrow("Unsupported tour file version 2");
+  });
+
+  it("names the invalid keyframe field", () => {
+    const file = (keyframes: unknown[]) =>
+      JSON.stringify({ format: TOUR_FILE_FORMAT, version: TOUR_FILE_VERSION, name: 'Broken', keyframes });
+
+    expect(() => importTour(file([keyframe(0), { ...keyframe(2), time: -1 }]))).toThrow("keyframes[1].time must be a number >= 0");
+    expect(() => importTour(file([{ ...keyframe(0), camera: { position: [0, 0], target: [0, 0, 0] } }])))
+      .toThrow("keyframes[0].camera.position must be an array of 3 numbers");
+    expect(() => importTour(file([{ ...keyframe(0), config: { ...DEFAULT_CONFIG, size: 99 } }])))
+      .toThrow("keyframes[0].config.size must be between");
+  });
+});
@@ -0,0 +1,189 @@
+import { CameraState, MorphEasing, ParticleConfig, Tour, TourKeyframe, Vec3 } from "../types";
+import { MORPH_EASINGS, parseParticleConfig } from "./configSchema";
+import { EASINGS } from "./particleMorph";
+
+// Guided tours: keyframes of camera, visualization settings and painting, played
+// back with easing on the clock or on the playing track's time. Tours travel as
+// versioned JSON files (like presets); the tour being edited lives in localStorage.
+
+export const TOUR_FILE_FORMAT = 'artparticle3d-tour';
+export const TOUR_FILE_VERSION = 1;
+
+const STORAGE_KEY = 'artparticle3d:tour';
+
+export const DEFAULT_KEYFRAME_GAP = 4; // Seconds between a new keyframe and the previous last one
+
+export const EMPTY_TOUR: Tour = {
+  name: 'Tour',
+  keyframes: [],
+  loop: true,
+  syncToAudio: false,
+  autoplay: false
+};
+
+// Settings blended between keyframes. The others (density, depth mode, audio routes ...)
+// switch when a move starts, so the cloud is resampled once per move rather than every frame.
+const BLENDED_KEYS = ['brightness', 'depth', 'size', 'dispersion'] as const;
+
+export interface TourSample {
+  camera: CameraState;
+  config: ParticleConfig;
+  paintingId: string;
+  index: number; // Keyframe being moved to (or resting at)
+}
+
+// --- Playback ---
+
+export const tourDuration = (tour: Tour): number =>
+  tour.keyframes.length > 0 ? tour.keyframes[tour.keyframes.length - 1].time : 0;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpVec3 = (a: Vec3, b: Vec3, t: number): Vec3 => [lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)];
+
+const atKeyframe = (keyframe: TourKeyframe, index: number): TourSample => ({
+  camera: keyframe.camera,
+  config: keyframe.config,
+  paintingId: keyframe.paintingId,
+  index
+});
+
+// The tour state `time` seconds in; before the first keyframe and after the last one it rests there
+export const sampleTour = (tour: Tour, time: number): TourSample | null => {
+  const { keyframes } = tour;
+  if (keyframes.length === 0) return null;
+
+  const next = keyframes.findIndex(k => k.time > time);
+  if (next === 0) return atKeyframe(keyframes[0], 0);
+  if (next < 0) return atKeyframe(keyframes[keyframes.length - 1], keyframes.length - 1);
+
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  const t = EASINGS[to.easing]((time - from.time) / (to.time - from.time));
+
+  const config: ParticleConfig = { ...to.config };
+  BLENDED_KEYS.forEach((key) => {
+    config[key] = lerp(from.config[key], to.config[key], t);
+  });
+
+  return {
+    camera: {
+      position: lerpVec3(from.camera.position, to.camera.position, t),
+      target: lerpVec3(from.camera.target, to.camera.target, t)
+    },
+    config,
+    paintingId: to.paintingId,
+    index: next
+  };
+};
+
+// --- Editing ---
+
+const sortKeyframes = (keyframes: TourKeyframe[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+export const addKeyframe = (tour: Tour, keyframe: Omit<TourKeyframe, 'time'>): Tour => ({
+  ...tour,
+  keyframes: [
+    ...tour.keyframes,
+    { ...keyframe, time: tour.keyframes.length > 0 ? tourDuration(tour) + DEFAULT_KEYFRAME_GAP : 0 }
+  ]
+});
+
+export const updateKeyframe = (tour: Tour, index: number, changes: Partial<TourKeyframe>): Tour => ({
+  ...tour,
+  keyframes: sortKeyframes(tour.keyframes.map((k, i) => (i === index ? { ...k, ...changes } : k)))
+});
+
+export const removeKeyframe = (tour: Tour, index: number): Tour => ({
+  ...tour,
+  keyframes: tour.keyframes.filter((_, i) => i !== index)
+});
+
+// --- Validation ---
+
+const parseVec3 = (value: unknown, path: string): Vec3 => {
+  if (!Array.isArray(value) || value.length !== 3 || !value.every(n => typeof n === 'number' && Number.isFinite(n))) {
+    throw new Error(`${path} must be an array of 3 numbers`);
+  }
+  return value as Vec3;
+};
+
+const parseKeyframe = (value: unknown, path: string): TourKeyframe => {
+  if (typeof value !== 'object' || value === null) throw new Error(`${path} must be an object`);
+  const { time, camera, config, paintingId, easing } = value as Record<string, unknown>;
+
+  if (typeof time !== 'number' || !Number.isFinite(time) || time < 0) throw new Error(`${path}.time must be a number >= 0`);
+  if (typeof camera !== 'object' || camera === null) throw new Error(`${path}.camera must be an object`);
+  if (typeof paintingId !== 'string' || !paintingId) throw new Error(`${path}.paintingId must be a non-empty string`);
+  if (easing !== undefined && !MORPH_EASINGS.includes(easing as MorphEasing)) {
+    throw new Error(`${path}.easing must be one of ${MORPH_EASINGS.join(', ')}`);
+  }
+
+  const { position, target } = camera as Record<string, unknown>;
+  return {
+    time,
+    camera: { position: parseVec3(position, `${path}.camera.position`), target: parseVec3(target, `${path}.camera.target`) },
+    config: parseParticleConfig(config, `${path}.config`),
+    paintingId,
+    easing: (easing as MorphEasing | undefined) ?? 'easeInOutCubic'
+  };
+};
+
+// Validate a versioned tour file. Throws with a readable message naming the offending field.
+const parseTourFile = (value: unknown): Tour => {
+  if (typeof value !== 'object' || value === null) throw new Error("Tour file must be a JSON object");
+  const file = value as Record<string, unknown>;
+
+  if (file.format !== TOUR_FILE_FORMAT) throw new Error(`Not an ArtParticle tour file (format "${String(file.format)}")`);
+  if (file.version !== TOUR_FILE_VERSION) throw new Error(`Unsupported tour file version ${String(file.version)}`);
+  if (typeof file.name !== 'string') throw new Error("name must be a string");
+  if (!Array.isArray(file.keyframes)) throw new Error("keyframes must be an array");
+
+  return {
+    name: file.name.trim() || EMPTY_TOUR.name,
+    keyframes: sortKeyframes(file.keyframes.map((k, i) => parseKeyframe(k, `keyframes[${i}]`))),
+    loop: file.loop !== false,
+    syncToAudio: file.syncToAudio === true,
+    autoplay: file.autoplay === true
+  };
+};
+
+const toTourFile = (tour: Tour) => ({
+  format: TOUR_FILE_FORMAT,
+  version: TOUR_FILE_VERSION,
+  ...tour
+});
+
+// --- Import / Export ---
+
+export const exportTour = (tour: Tour): string => JSON.stringify(toTourFile(tour), null, 2);
+
+export const importTour = (json: string): Tour => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Tour file is not valid JSON");
+  }
+  return parseTourFile(parsed);
+};
+
+// --- Persistence ---
+
+export const loadTour = (): Tour => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseTourFile(JSON.parse(raw)) : EMPTY_TOUR;
+  } catch (err) {
+    console.warn(`Ignoring unreadable localStorage entry "${STORAGE_KEY}"`, err);
+    return EMPTY_TOUR;
+  }
+};
+
+export const saveTour = (tour: Tour) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(toTourFile(tour)));
+  } catch (err) {
+    console.warn(`Failed to persist "${STORAGE_KEY}"`, err);
+  }
+};
@@ -0,0 +1,182 @@
+import { Painting } from "../types";
+import { MessageKey, MessageParams } from "./i18n";
+import { evictImageGeometry } from "./geometryCache";
+import { isIndexedDbAvailable, requestToPromise, STORES, withStores } from "./indexedDb";
+
+// Images added by the user (file picker, drag and drop, paste). They are stored as
+// Blobs in IndexedDB with editable title/artist/year and shown through object URLs,
+// which are revoked when the upload is deleted.
+
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+// Longer sides are downscaled before storing; sampling never needs more
+export const MAX_UPLOAD_DIMENSION = 4096;
+const JPEG_QUALITY = 0.92;
+
+interface StoredUpload {
+  id: string;
+  title: string;
+  artist: string;
+  year: string;
+  blob: Blob;
+  addedAt: number;
+}
+
+export type UploadFields = Pick<Painting, 'title' | 'artist' | 'year'>;
+
+// A translatable message about one file, shown after an import
+export interface UploadNotice {
+  key: MessageKey;
+  params: MessageParams;
+  error: boolean;
+}
+
+export interface UploadResult {
+  paintings: Painting[];
+  notices: UploadNotice[];
+}
+
+export const isUserUpload = (painting: Painting) => painting.id.startsWith('custom-');
+
+const toPainting = ({ id, title, artist, year, blob }: StoredUpload): Painting => ({
+  id,
+  title,
+  artist,
+  year,
+  url: URL.createObjectURL(blob)
+});
+
+// --- Image Preparation ---
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("Failed to encode the downscaled image"))),
+      type,
+      JPEG_QUALITY
+    );
+  });
+
+// Validate one file and downscale it if needed. Returns the Blob to store, or a notice explaining the rejection.
+const prepareImage = async (file: File): Promise<{ blob: Blob | null; notice?: UploadNotice }> => {
+  const name = file.name || file.type;
+  if (!file.type.startsWith('image/')) {
+    return { blob: null, notice: { key: 'upload.notImage', params: { name }, error: true } };
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    const params = { name, size: (file.size / (1024 * 1024)).toFixed(0), max: MAX_UPLOAD_BYTES / (1024 * 1024) };
+    return { blob: null, notice: { key: 'upload.tooLarge', params, error: true } };
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (err) {
+    console.warn(`Failed to decode upload "${name}"`, err);
+    return { blob: null, notice: { key: 'upload.unreadable', params: { name }, error: true } };
+  }
+
+  try {
+    const longest = Math.max(bitmap.width, bitmap.height);
+    if (longest <= MAX_UPLOAD_DIMENSION) return { blob: file };
+
+    const scale = MAX_UPLOAD_DIMENSION / longest;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Failed to get 2D context");
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    // Keep PNG for images that may be transparent
+    const blob = await canvasToBlob(canvas, file.type === 'image/png' ? 'image/png' : 'image/jpeg');
+    const params = { name, from: `${bitmap.width}×${bitmap.height}`, to: `${canvas.width}×${canvas.height}` };
+    return { blob, notice: { key: 'upload.downscaled', params, error: false } };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// --- Library ---
+
+export const loadUploads = async (): Promise<Painting[]> => {
+  if (!isIndexedDbAvailable()) return [];
+  try {
+    const uploads = await withStores(STORES.uploads, 'readonly', tx =>
+      requestToPromise(tx.objectStore(STORES.uploads).getAll() as IDBRequest<StoredUpload[]>)
+    );
+    return uploads.sort((a, b) => a.addedAt - b.addedAt).map(toPainting);
+  } catch (err) {
+    console.warn("Failed to load saved uploads", err);
+    return [];
+  }
+};
+
+// Store image files and return them as paintings. Files that are not images, too
+// large or undecodable are skipped with a notice; huge images are downscaled.
+export const addUploads = async (files: File[], fallbackTitle: string): Promise<UploadResult> => {
+  const stored: StoredUpload[] = [];
+  const notices: UploadNotice[] = [];
+
+  for (const [i, file] of files.entries()) {
+    const { blob, notice } = await prepareImage(file);
+    if (notice) notices.push(notice);
+    if (!blob) continue;
+
+    stored.push({
+      id: `custom-${Date.now()}-${i}`,
+      title: file.name.replace(/\.[^.]+$/, '') || fallbackTitle,
+      artist: '',
+      year: new Date().getFullYear().toString(),
+      blob,
+      addedAt: Date.now() + i
+    });
+  }
+
+  if (stored.length && isIndexedDbAvailable()) {
+    try {
+      await withStores(STORES.uploads, 'readwrite', tx => {
+        const store = tx.objectStore(STORES.uploads);
+        stored.forEach(upload => store.put(upload));
+      });
+    } catch (err) {
+      // Still usable for this session
+      console.warn("Failed to persist uploads", err);
+      notices.push({ key: 'upload.notSaved', params: { count: stored.length }, error: true });
+    }
+  }
+
+  return { paintings: stored.map(toPainting), notices };
+};
+
+export const updateUpload = async (id: string, fields: Partial<UploadFields>): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await withStores(STORES.uploads, 'readwrite', async (tx) => {
+      const store = tx.objectStore(STORES.uploads);
+      const upload = await requestToPromise(store.get(id) as IDBRequest<StoredUpload | undefined>);
+      if (upload) store.put({ ...upload, ...fields });
+    });
+  } catch (err) {
+    console.warn("Failed to update upload", err);
+  }
+};
+
+// Remove an upload, its cached particle geometry and its object URL
+export const deleteUpload = async (painting: Painting): Promise<void> => {
+  let blob: Blob | undefined;
+  if (isIndexedDbAvailable()) {
+    try {
+      blob = await withStores(STORES.uploads, 'readwrite', async (tx) => {
+        const store = tx.objectStore(STORES.uploads);
+        const upload = await requestToPromise(store.get(painting.id) as IDBRequest<StoredUpload | undefined>);
+        store.delete(painting.id);
+        return upload?.blob;
+      });
+    } catch (err) {
+      console.warn("Failed to delete upload", err);
+    }
+  }
+
+  await evictImageGeometry(painting.url, blob);
+  URL.revokeObjectURL(painting.url);
+};
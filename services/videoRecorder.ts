@@ -0,0 +1,197 @@
+import { advance, RootState } from '@react-three/fiber';
+import { CameraApi, CameraState, Vec3 } from "../types";
+
+// Records the particle canvas (plus the AudioPlayer output) to WebM.
+//  - realtime: MediaRecorder on canvas.captureStream(fps) while the scene runs normally
+//  - offline:  the render loop is paused and uTime is stepped exactly 1/fps per frame.
+//              The recorder is paused while each frame renders, so slow machines
+//              produce a smooth video instead of dropped frames (video only).
+
+export type RecordingMode = 'realtime' | 'offline';
+
+export type Frameloop = RootState['frameloop'];
+
+export interface RecordingOptions {
+  mode: RecordingMode;
+  fps: number;
+  duration: number; // seconds
+  orbit: boolean;   // Scripted camera orbit around the current target
+  orbitTurns: number;
+}
+
+export interface RecordingContext {
+  state: RootState;
+  cameraApi: CameraApi | null;
+  audioStream: MediaStream | null;
+  // Switches the <Canvas frameloop> prop; setting it on the store directly would be undone by the next render
+  setFrameloop: (frameloop: Frameloop) => void;
+}
+
+export interface RecordingHooks {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void; // 0.0 - 1.0
+}
+
+export const RECORDING_FPS = [24, 30, 60];
+export const MAX_RECORDING_SECONDS = 120;
+
+const MIME_CANDIDATES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+const pickMimeType = () => MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+
+// The prop reaches the store once React re-renders the canvas
+const waitForFrameloop = async (state: RootState, frameloop: Frameloop) => {
+  for (let i = 0; i < 60 && state.get().frameloop !== frameloop; i++) await nextFrame();
+};
+
+const abortError = () => new DOMException('Recording cancelled', 'AbortError');
+
+// Camera pose for an orbit around `start.target`, keeping radius and elevation
+const orbitPose = (start: CameraState, angle: number): Partial<CameraState> => {
+  const [px, py, pz] = start.position;
+  const [tx, ty, tz] = start.target;
+  const dx = px - tx;
+  const dz = pz - tz;
+  const radius = Math.hypot(dx, dz);
+  const base = Math.atan2(dx, dz);
+  const position: Vec3 = [tx + Math.sin(base + angle) * radius, py, tz + Math.cos(base + angle) * radius];
+  return { position };
+};
+
+const startRecorder = (stream: MediaStream) => {
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  const finished = new Promise<Blob>((resolve, reject) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+    recorder.onerror = () => reject(new Error("MediaRecorder failed"));
+  });
+
+  recorder.start(1000);
+  return { recorder, finished };
+};
+
+const recordRealtime = async (
+  { state, cameraApi, audioStream }: RecordingContext,
+  options: RecordingOptions,
+  { signal, onProgress }: RecordingHooks
+): Promise<Blob> => {
+  const canvasStream = state.gl.domElement.captureStream(options.fps);
+  const stream = new MediaStream([
+    ...canvasStream.getVideoTracks(),
+    ...(audioStream?.getAudioTracks() ?? [])
+  ]);
+  const { recorder, finished } = startRecorder(stream);
+  const startCamera = cameraApi?.getState();
+  const startedAt = performance.now();
+  let frame = 0;
+
+  const tick = () => {
+    const elapsed = (performance.now() - startedAt) / 1000;
+    const progress = Math.min(1, elapsed / options.duration);
+    onProgress?.(progress);
+
+    if (options.orbit && cameraApi && startCamera) {
+      cameraApi.setState(orbitPose(startCamera, progress * options.orbitTurns * Math.PI * 2));
+    }
+
+    if (progress >= 1 || signal?.aborted) {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return;
+    }
+    frame = requestAnimationFrame(tick);
+  };
+  frame = requestAnimationFrame(tick);
+
+  try {
+    const blob = await finished;
+    if (signal?.aborted) throw abortError();
+    return blob;
+  } finally {
+    cancelAnimationFrame(frame);
+    canvasStream.getTracks().forEach(track => track.stop());
+    if (startCamera) cameraApi?.setState(startCamera);
+  }
+};
+
+const recordOffline = async (
+  { state, cameraApi, setFrameloop }: RecordingContext,
+  options: RecordingOptions,
+  { signal, onProgress }: RecordingHooks
+): Promise<Blob> => {
+  const canvasStream = state.gl.domElement.captureStream(0);
+  const [track] = canvasStream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const { recorder, finished } = startRecorder(canvasStream);
+  recorder.pause();
+
+  const startCamera = cameraApi?.getState();
+  const startTime = state.clock.elapsedTime;
+  const frameloop = state.get().frameloop;
+  const frames = Math.round(options.duration * options.fps);
+  const frameMs = 1000 / options.fps;
+
+  setFrameloop('never');
+
+  try {
+    await waitForFrameloop(state, 'never');
+
+    for (let i = 0; i < frames; i++) {
+      if (signal?.aborted) throw abortError();
+      const progress = i / frames;
+
+      if (options.orbit && cameraApi && startCamera) {
+        cameraApi.setState(orbitPose(startCamera, progress * options.orbitTurns * Math.PI * 2));
+      }
+
+      // Render exactly one frame at a fixed timestep, then let the recorder see it for 1/fps
+      advance(startTime + i / options.fps, true, state);
+      recorder.resume();
+      track.requestFrame();
+      await sleep(frameMs);
+      recorder.pause();
+
+      onProgress?.((i + 1) / frames);
+    }
+
+    recorder.stop();
+    return await finished;
+  } finally {
+    if (recorder.state !== 'inactive') recorder.stop();
+    canvasStream.getTracks().forEach(t => t.stop());
+    setFrameloop(frameloop);
+    await waitForFrameloop(state, frameloop);
+    // Switching the frameloop resets the clock; continue from where the recording left off
+    state.clock.elapsedTime = startTime + options.duration;
+    if (startCamera) cameraApi?.setState(startCamera);
+  }
+};
+
+export const recordVideo = (
+  context: RecordingContext,
+  options: RecordingOptions,
+  hooks: RecordingHooks = {}
+): Promise<Blob> => {
+  if (!isRecordingSupported()) return Promise.reject(new Error("Video recording is not supported in this browser"));
+  if (!(options.duration > 0 && options.duration <= MAX_RECORDING_SECONDS)) {
+    return Promise.reject(new Error(`Duration must be between 1 and ${MAX_RECORDING_SECONDS} seconds`));
+  }
+
+  return options.mode === 'offline'
+    ? recordOffline(context, options, hooks)
+    : recordRealtime(context, options, hooks);
+};
@@ -5,8 +5,27 @@ export interface Painting {
   artist: string;
   url: string; // Image URL
   year: string;
+  // Catalog metadata (see catalog/catalog.json)
+  collection?: string; // Id of the catalog collection; unset for uploads and shared links
+  museum?: string;
+  medium?: string;
+  dimensions?: string;
+  license?: string;
+  attribution?: string;
+  tags?: string[];
+  thumbnailUrl?: string;
+  localUrl?: string; // Copy shipped with the app, tried before `url` (offline / intranet)
 }
 
+export interface PaintingCollection {
+  id: string;
+  title: string;
+  description?: string;
+  paintings: Painting[];
+}
+
+export type MorphEasing = 'linear' | 'easeInOutSine' | 'easeInOutCubic' | 'easeOutExpo';
+
 export interface ParticleConfig {
   size: number;
   depth: number; // Z-axis displacement intensity
@@ -14,24 +33,170 @@ export interface ParticleConfig {
   dispersion: number; // Random scatter effect
   brightness: number; // Global brightness multiplier
   useSemanticDepth?: boolean; // Enable smart depth based on color theory
+  morphDuration?: number; // Seconds for painting-to-painting transitions (0 = instant)
+  morphEasing?: MorphEasing;
+  audioRoutes?: AudioRoute[]; // Audio modulation matrix (defaults to DEFAULT_AUDIO_ROUTES)
+}
+
+// --- Audio Modulation ---
+
+export type AudioModSource = 'low' | 'mid' | 'high' | 'beat' | 'energy';
+export type AudioModTarget = 'depth' | 'wave' | 'dispersion' | 'brightness' | 'size';
+export type AudioModCurve = 'linear' | 'easeIn' | 'easeOut' | 'smooth' | 'inverted';
+
+// One row of the modulation matrix: curve(source) * gain + offset, added to the target
+export interface AudioRoute {
+  source: AudioModSource;
+  target: AudioModTarget;
+  gain: number;
+  offset: number;
+  curve: AudioModCurve;
+}
+
+export interface ConfigPreset {
+  id: string;
+  name: string;
+  config: ParticleConfig;
+  builtIn?: boolean;
+}
+
+export interface GeometryData {
+  positions: Float32Array;
+  colors: Float32Array;
+  brightness: Float32Array; // Separate attribute for brightness/depth
+  randoms: Float32Array;    // Random seed for shader noise
+  density: number;
+  src: string;
+  semantic: boolean;
+}
+
+export interface GeometryCacheStats {
+  memory: { entries: number; bytes: number; budget: number };
+  disk: { entries: number; bytes: number; budget: number; available: boolean };
+  hits: { memory: number; disk: number };
+  misses: number;
+  evictions: { memory: number; disk: number };
+}
+
+export type Vec3 = [number, number, number];
+
+export interface CameraState {
+  position: Vec3;
+  target: Vec3;
+}
+
+// Imperative camera access shared between the Canvas and the UI (see CameraBridge)
+export interface CameraApi {
+  getState: () => CameraState;
+  setState: (state: Partial<CameraState>) => void;
+  // Animate to a view; resolves when the flight ends or the user takes over the controls
+  flyTo: (state: CameraState, duration?: number) => Promise<void>;
+}
+
+// --- Exhibition ---
+
+export type ExhibitionLayout = 'wall' | 'ring' | 'grid';
+
+// Settings a single painting can override in the exhibition
+export type ExhibitionOverride = Partial<Pick<ParticleConfig, 'brightness' | 'depth' | 'density' | 'size' | 'dispersion'>>;
+
+export interface ExhibitionSettings {
+  enabled: boolean;
+  layout: ExhibitionLayout;
+  hidden: string[]; // Painting ids left out of the exhibition
+  overrides: Record<string, ExhibitionOverride>; // By painting id
+}
+
+export interface ExhibitionPlacement {
+  painting: Painting;
+  position: Vec3;
+  rotationY: number; // Radians; an unrotated cloud faces +z
+}
+
+// --- Brushes ---
+
+// Pointer interaction with the particles ('off' leaves them alone)
+export type BrushMode = 'off' | 'repel' | 'attract' | 'vortex' | 'smear';
+
+export interface BrushSettings {
+  mode: BrushMode;
+  radius: number; // World units around the pointer
+  strength: number; // Maximum displacement in world units
+}
+
+// --- Tours ---
+
+// One stop of a guided tour
+export interface TourKeyframe {
+  time: number; // Seconds from the start of the tour
+  camera: CameraState;
+  config: ParticleConfig;
+  paintingId: string;
+  easing: MorphEasing; // Easing of the move into this keyframe
+}
+
+export interface Tour {
+  name: string;
+  keyframes: TourKeyframe[]; // Sorted by time
+  loop: boolean;
+  syncToAudio: boolean; // Follow the playing track's time instead of the clock
+  autoplay: boolean; // Start when the app opens (unattended kiosks)
+}
+
+// --- Insight Chat ---
+
+// Normalized [x0, y0, x1, y1] in image space, origin top-left
+export type NormalizedBox = [number, number, number, number];
+
+export interface HighlightRegion {
+  label: string;
+  box: NormalizedBox;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  regions?: HighlightRegion[]; // Parts of the painting the answer refers to
+  followUps?: string[];        // Suggested next questions
 }
 
 export interface AIResponse {
   analysis: string;
   mood: string;
+  suggestedConfig?: Partial<ParticleConfig>; // Validated and clamped to CONFIG_RANGES
+  suggestedMusic?: {
+    mood: string;
+    trackId?: string; // A track from the playlist the request was made with
+  };
 }
 
 export interface AudioData {
-  low: number;  // 0.0 - 1.0
-  mid: number;  // 0.0 - 1.0
-  high: number; // 0.0 - 1.0
+  low: number;    // 0.0 - 1.0
+  mid: number;    // 0.0 - 1.0
+  high: number;   // 0.0 - 1.0
+  beat: number;   // 1.0 on a detected beat, decaying towards 0.0
+  energy: number; // 0.0 - 1.0, overall loudness
+  bpm: number;    // Estimated tempo, 0 until enough beats were heard
 }
 
 export interface Track {
+  id: string;
   title: string;
   artist: string;
   sources: {
     url: string;
     type: string;
   }[];
+  userFile?: boolean; // Added by the user; audio lives in IndexedDB behind an object URL
+}
+
+export type AudioSourceKind = 'playlist' | 'microphone';
+
+export type TrackSummary = Pick<Track, 'id' | 'title' | 'artist'>;
+
+// Imperative access to the AudioPlayer (see AudioPlayer's apiRef prop)
+export interface AudioPlayerApi {
+  getTracks: () => TrackSummary[];
+  cueTrack: (id: string) => boolean; // Select and play a playlist track; false if it is not in the playlist
+  getPlaybackTime: () => number | null; // Seconds into the playing track; null unless a playlist track is playing
 }
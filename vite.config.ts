@@ -1,17 +1,98 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+// Hosts the proxy may fetch from: those of the bundled catalog's images plus IMAGE_PROXY_ALLOWLIST
+const proxyAllowlist = (extraHosts: string): Set<string> => {
+  const hosts = new Set(extraHosts.split(',').map(host => host.trim().toLowerCase()).filter(Boolean));
+  const manifest = JSON.parse(fs.readFileSync(path.resolve(__dirname, 'catalog/catalog.json'), 'utf8'));
+  for (const collection of manifest.collections ?? []) {
+    for (const painting of collection.paintings ?? []) {
+      for (const url of [painting.url, painting.thumbnailUrl]) {
+        if (typeof url === 'string' && /^https?:\/\//i.test(url)) hosts.add(hostnameOf(url));
+      }
+    }
+  }
+  return hosts;
+};
+
+// Same-origin image proxy for local development (the "dev-proxy" image source).
+// GET /__image-proxy?url=<encoded http(s) url> streams the remote image back. The dev
+// server listens on the network, so only loopback clients and allowlisted hosts are served.
+const imageProxy = (allowedHosts: Set<string>): Plugin => ({
+  name: 'artparticle-image-proxy',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/__image-proxy', async (req, res) => {
+      if (!LOOPBACK_ADDRESSES.has(req.socket.remoteAddress ?? '')) {
+        res.statusCode = 403;
+        res.end('The image proxy only serves local clients');
+        return;
+      }
+
+      const target = new URL(req.url ?? '', 'http://localhost').searchParams.get('url');
+      if (!target || !/^https?:\/\//i.test(target)) {
+        res.statusCode = 400;
+        res.end('Missing or invalid url parameter');
+        return;
+      }
+      if (!allowedHosts.has(hostnameOf(target))) {
+        res.statusCode = 403;
+        res.end('Host not in IMAGE_PROXY_ALLOWLIST');
+        return;
+      }
+
+      try {
+        // No redirects: they could lead off the allowlist
+        const upstream = await fetch(target, { signal: AbortSignal.timeout(15000), redirect: 'error' });
+        const contentType = upstream.headers.get('content-type') ?? '';
+        if (!upstream.ok || !contentType.startsWith('image/')) {
+          res.statusCode = upstream.ok ? 415 : upstream.status;
+          res.end(`Upstream responded ${upstream.status} ${contentType}`);
+          return;
+        }
+
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Cache-Control', 'public, max-age=86400');
+        res.end(Buffer.from(await upstream.arrayBuffer()));
+      } catch (err) {
+        res.statusCode = 502;
+        res.end(`Image proxy failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    });
+  }
+});
+
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), imageProxy(proxyAllowlist(env.IMAGE_PROXY_ALLOWLIST ?? ''))],
       define: {
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.INSIGHT_PROVIDER': JSON.stringify(env.INSIGHT_PROVIDER ?? ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL ?? ''),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL ?? ''),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL ?? ''),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY ?? ''),
+        'process.env.CATALOG_URLS': JSON.stringify(env.CATALOG_URLS ?? ''),
+        'process.env.IMAGE_SOURCES': JSON.stringify(env.IMAGE_SOURCES ?? ''),
+        'process.env.IMAGE_PROXY_TEMPLATE': JSON.stringify(env.IMAGE_PROXY_TEMPLATE ?? ''),
+        'process.env.IMAGE_DEV_PROXY': JSON.stringify(command === 'serve' ? '1' : '')
       },
       resolve: {
         alias: {